@@ -1,5 +1,7 @@
 import * as vscode from "vscode";
 import { ItemOptions } from "./ItemOptions";
+import { HideReason } from "./hideRules";
+import { toItemUri } from "./itemUri";
 
 
 export class ExplorerSharpItem extends vscode.TreeItem
@@ -7,7 +9,15 @@ export class ExplorerSharpItem extends vscode.TreeItem
 	public readonly relativePath: string;
 	public readonly isDirectory: boolean;
 	public readonly diskUri: vscode.Uri;
+	public readonly workspaceFolder: vscode.WorkspaceFolder;
 	public folderPath?: string;
+	/** Directories folded into this item by flattening, outermost first. */
+	public chain: vscode.Uri[];
+	public parent?: ExplorerSharpItem;
+	public isHiddenEntry = false;
+	public hiddenReason?: HideReason;
+	/** Related files shown under this file by the file nesting rules. */
+	public nestedFiles: ExplorerSharpItem[] = [];
 
 	constructor(options: ItemOptions)
 	{
@@ -21,7 +31,8 @@ export class ExplorerSharpItem extends vscode.TreeItem
 		this.relativePath = options.relativePath;
 		this.isDirectory = options.isDirectory;
 		this.diskUri = options.diskUri ?? options.uri;
-		this.tooltip = options.relativePath;
+		this.workspaceFolder = options.workspaceFolder;
+		this.chain = options.isDirectory ? [this.diskUri] : [];
 
 		if (options.isDirectory)
 		{
@@ -34,8 +45,49 @@ export class ExplorerSharpItem extends vscode.TreeItem
 			this.command = {
 				command: "explorerSharp.openFile",
 				title: "Open File",
-				arguments: [options.uri],
+				arguments: [this.diskUri],
 			};
 		}
 	}
+
+	/**
+	 * Call once `chain` is final; decorations read the item's scope from its
+	 * resource URI. Plain files keep their disk URI, so dragging one into an
+	 * editor opens the file itself, and get the native decorations instead.
+	 */
+	updateResourceUri(): void
+	{
+		const plainFile = !this.isDirectory && this.chain.length === 0 && !this.isHiddenEntry;
+		this.resourceUri = plainFile ? this.diskUri : toItemUri(this.diskUri, this.chain[0] ?? this.diskUri, this.isHiddenEntry);
+	}
+
+	/** Makes this file collapsible, with `files` as its children. */
+	nest(files: ExplorerSharpItem[]): void
+	{
+		this.nestedFiles = files;
+		this.collapsibleState = files.length > 0
+			? vscode.TreeItemCollapsibleState.Collapsed
+			: vscode.TreeItemCollapsibleState.None;
+	}
+
+	/**
+	 * Renders the item as a dimmed placeholder for a hidden entry. `reason` is
+	 * set when the entry itself is hidden, and left out when it only sits
+	 * inside a hidden folder; such ghosts only offer unhiding that folder.
+	 */
+	markHidden(reason?: HideReason): void
+	{
+		this.isHiddenEntry = true;
+		this.hiddenReason = reason;
+		this.description = "hidden";
+
+		if (reason)
+		{
+			this.contextValue = this.isDirectory ? "hiddenFolder" : "hiddenFile";
+		}
+		else
+		{
+			this.contextValue = this.isDirectory ? "ghostFolder" : "ghostFile";
+		}
+	}
 }
@@ -7,5 +7,6 @@ export interface ItemOptions
 	uri: vscode.Uri;
 	relativePath: string;
 	isDirectory: boolean;
+	workspaceFolder: vscode.WorkspaceFolder;
 	diskUri?: vscode.Uri;
 }
@@ -0,0 +1,254 @@
+import * as vscode from "vscode";
+import { NestingPatterns } from "./fileNesting";
+import { parentOf } from "./paths";
+import { VirtualFolder } from "./virtualFolders";
+
+
+export const SHARED_CONFIG_FILE = ".explorersharp.json";
+
+/** Settings that can come from the shared file and the personal overlay as well as from VS Code settings. */
+export interface LayerConfig
+{
+	hiddenFolders?: string[];
+	hiddenFiles?: string[];
+	hiddenPatterns?: string[];
+	flattenSingleFileDirectories?: boolean;
+	flattenSingleChildDirectories?: boolean;
+	neverFlatten?: string[];
+	alwaysCompact?: string[];
+	fileNestingEnabled?: boolean;
+	fileNestingPatterns?: NestingPatterns;
+	virtualFolders?: VirtualFolder[];
+}
+
+export type LayerName = "shared" | "settings" | "personal";
+
+const STRING_LIST_KEYS = ["hiddenFolders", "hiddenFiles", "hiddenPatterns", "neverFlatten", "alwaysCompact"] as const;
+const BOOLEAN_KEYS = ["flattenSingleFileDirectories", "flattenSingleChildDirectories", "fileNestingEnabled"] as const;
+const LAYER_KEYS: readonly string[] = [...STRING_LIST_KEYS, ...BOOLEAN_KEYS, "fileNestingPatterns", "virtualFolders"];
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every((entry) => typeof entry === "string");
+
+/**
+ * Keeps the values of a hand-edited shared file that have the expected type,
+ * returning the names of the keys that were dropped or trimmed.
+ */
+function sanitize(parsed: Record<string, unknown>): { config: LayerConfig; invalid: string[] }
+{
+	const config: LayerConfig = {};
+	const invalid: string[] = [];
+
+	for (const key of STRING_LIST_KEYS)
+	{
+		const value = parsed[key];
+		if (value === undefined)
+		{
+			continue;
+		}
+
+		if (!isStringList(value))
+		{
+			invalid.push(key);
+		}
+
+		if (Array.isArray(value))
+		{
+			config[key] = value.filter((entry): entry is string => typeof entry === "string");
+		}
+	}
+
+	for (const key of BOOLEAN_KEYS)
+	{
+		const value = parsed[key];
+		if (typeof value === "boolean")
+		{
+			config[key] = value;
+		}
+		else if (value !== undefined)
+		{
+			invalid.push(key);
+		}
+	}
+
+	const patterns = parsed.fileNestingPatterns;
+	if (typeof patterns === "object" && patterns !== null && !Array.isArray(patterns))
+	{
+		const entries = Object.entries(patterns);
+		config.fileNestingPatterns = Object.fromEntries(entries.filter(([, children]) => typeof children === "string"));
+		if (Object.keys(config.fileNestingPatterns).length !== entries.length)
+		{
+			invalid.push("fileNestingPatterns");
+		}
+	}
+	else if (patterns !== undefined)
+	{
+		invalid.push("fileNestingPatterns");
+	}
+
+	const folders = parsed.virtualFolders;
+	if (Array.isArray(folders))
+	{
+		config.virtualFolders = folders.filter((folder): folder is VirtualFolder =>
+			typeof folder?.name === "string" && folder.name.length > 0 && isStringList(folder.paths));
+		if (config.virtualFolders.length !== folders.length)
+		{
+			invalid.push("virtualFolders");
+		}
+	}
+	else if (folders !== undefined)
+	{
+		invalid.push("virtualFolders");
+	}
+
+	return { config, invalid };
+}
+
+export interface ConfigLayer
+{
+	get(folder: vscode.WorkspaceFolder): LayerConfig;
+	update(folder: vscode.WorkspaceFolder, change: (config: LayerConfig) => LayerConfig): Promise<void>;
+}
+
+/**
+ * The `.explorersharp.json` file at the root of each workspace folder, meant to
+ * be committed so the whole team shares its rules. Files are read up front
+ * and reloaded when they change, so lookups stay synchronous.
+ */
+export class SharedConfigFiles implements ConfigLayer, vscode.Disposable
+{
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+	readonly onDidChange = this._onDidChange.event;
+
+	private readonly configs = new Map<string, LayerConfig>();
+	/** The parsed files as written, so updates keep values this version does not understand. */
+	private readonly raw = new Map<string, Record<string, unknown>>();
+	private readonly watcher = vscode.workspace.createFileSystemWatcher(`**/${SHARED_CONFIG_FILE}`);
+
+	constructor()
+	{
+		this.watcher.onDidCreate((uri) => this.fileChanged(uri));
+		this.watcher.onDidChange((uri) => this.fileChanged(uri));
+		this.watcher.onDidDelete((uri) => this.fileChanged(uri));
+	}
+
+	fileOf(folder: vscode.WorkspaceFolder): vscode.Uri
+	{
+		return vscode.Uri.joinPath(folder.uri, SHARED_CONFIG_FILE);
+	}
+
+	get(folder: vscode.WorkspaceFolder): LayerConfig
+	{
+		return this.configs.get(folder.uri.toString()) ?? {};
+	}
+
+	async loadAll(): Promise<void>
+	{
+		this.configs.clear();
+		this.raw.clear();
+		await Promise.all((vscode.workspace.workspaceFolders ?? []).map((folder) => this.load(folder)));
+		this._onDidChange.fire();
+	}
+
+	async update(folder: vscode.WorkspaceFolder, change: (config: LayerConfig) => LayerConfig): Promise<void>
+	{
+		const key = folder.uri.toString();
+		const unknown = Object.entries(this.raw.get(key) ?? {}).filter(([name]) => !LAYER_KEYS.includes(name));
+		const written = { ...Object.fromEntries(unknown), ...change({ ...this.get(folder) }) };
+		this.raw.set(key, written);
+		this.configs.set(key, sanitize(written).config);
+		await vscode.workspace.fs.writeFile(this.fileOf(folder), Buffer.from(`${JSON.stringify(written, undefined, 2)}\n`));
+	}
+
+	private async load(folder: vscode.WorkspaceFolder): Promise<void>
+	{
+		let text: string;
+		try
+		{
+			text = Buffer.from(await vscode.workspace.fs.readFile(this.fileOf(folder))).toString("utf8");
+		}
+		catch
+		{
+			this.forget(folder);
+			return;
+		}
+
+		let parsed: unknown;
+		try
+		{
+			parsed = JSON.parse(text);
+		}
+		catch (e)
+		{
+			console.error(`ExplorerSharp: Failed to parse ${this.fileOf(folder).fsPath}`, e);
+			vscode.window.showWarningMessage(`ExplorerSharp: ${SHARED_CONFIG_FILE} in ${folder.name} is not valid JSON and is ignored.`);
+			this.forget(folder);
+			return;
+		}
+
+		const raw = typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+		const { config, invalid } = sanitize(raw);
+		this.raw.set(folder.uri.toString(), raw);
+		this.configs.set(folder.uri.toString(), config);
+
+		if (invalid.length > 0)
+		{
+			vscode.window.showWarningMessage(`ExplorerSharp: Ignored invalid values of ${invalid.join(", ")} in ${SHARED_CONFIG_FILE} in ${folder.name}.`);
+		}
+	}
+
+	private forget(folder: vscode.WorkspaceFolder): void
+	{
+		this.configs.delete(folder.uri.toString());
+		this.raw.delete(folder.uri.toString());
+	}
+
+	private async fileChanged(uri: vscode.Uri): Promise<void>
+	{
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (folder && parentOf(uri).toString() === folder.uri.toString())
+		{
+			await this.load(folder);
+			this._onDidChange.fire();
+		}
+	}
+
+	dispose(): void
+	{
+		this.watcher.dispose();
+		this._onDidChange.dispose();
+	}
+}
+
+/** Personal rules on top of everything else, kept in workspace state so they never end up in a shared file. */
+export class PersonalOverlay implements ConfigLayer, vscode.Disposable
+{
+	private static readonly STATE_KEY = "explorerSharp.personalOverlay";
+
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+	readonly onDidChange = this._onDidChange.event;
+
+	constructor(private readonly memento: vscode.Memento)
+	{
+	}
+
+	get(folder: vscode.WorkspaceFolder): LayerConfig
+	{
+		return this.all[folder.uri.toString()] ?? {};
+	}
+
+	async update(folder: vscode.WorkspaceFolder, change: (config: LayerConfig) => LayerConfig): Promise<void>
+	{
+		await this.memento.update(PersonalOverlay.STATE_KEY, { ...this.all, [folder.uri.toString()]: change({ ...this.get(folder) }) });
+		this._onDidChange.fire();
+	}
+
+	private get all(): Record<string, LayerConfig>
+	{
+		return this.memento.get<Record<string, LayerConfig>>(PersonalOverlay.STATE_KEY, {});
+	}
+
+	dispose(): void
+	{
+		this._onDidChange.dispose();
+	}
+}
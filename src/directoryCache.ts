@@ -0,0 +1,99 @@
+import * as vscode from "vscode";
+import { parentOf } from "./paths";
+
+
+export type DirectoryEntries = [string, vscode.FileType][];
+
+const MAX_CONCURRENT_READS = 8;
+
+/**
+ * Directory listings shared by every part of the provider. Concurrent reads of
+ * the same directory share one request, at most `MAX_CONCURRENT_READS` reads
+ * hit the file system at once, and listings stay cached until the file
+ * watcher or a refresh invalidates them.
+ */
+export class DirectoryCache
+{
+	private listings = new Map<string, Promise<DirectoryEntries>>();
+	private active = 0;
+	private waiting: (() => void)[] = [];
+
+	read(uri: vscode.Uri): Promise<DirectoryEntries>
+	{
+		const key = uri.toString();
+		let listing = this.listings.get(key);
+
+		if (!listing)
+		{
+			const pending = this.throttle(() => Promise.resolve(vscode.workspace.fs.readDirectory(uri)));
+			pending.catch(() =>
+			{
+				if (this.listings.get(key) === pending)
+				{
+					this.listings.delete(key);
+				}
+			});
+			this.listings.set(key, pending);
+			listing = pending;
+		}
+
+		return listing;
+	}
+
+	/** Reads a file within the same concurrency limit as directory listings. Not cached. */
+	readFile(uri: vscode.Uri): Promise<Uint8Array>
+	{
+		return this.throttle(() => Promise.resolve(vscode.workspace.fs.readFile(uri)));
+	}
+
+	/** Drops the listing of `uri`, of its parent, and of anything below it. */
+	invalidate(uri: vscode.Uri): void
+	{
+		const key = uri.toString();
+		const parentKey = parentOf(uri).toString();
+
+		this.listings.delete(parentKey);
+		for (const cached of [...this.listings.keys()])
+		{
+			if (cached === key || cached.startsWith(`${key}/`))
+			{
+				this.listings.delete(cached);
+			}
+		}
+	}
+
+	clear(): void
+	{
+		this.listings.clear();
+	}
+
+	private async throttle<T>(task: () => Promise<T>): Promise<T>
+	{
+		if (this.active >= MAX_CONCURRENT_READS)
+		{
+			// The slot is handed over by the read that finishes next.
+			await new Promise<void>((resolve) => this.waiting.push(resolve));
+		}
+		else
+		{
+			this.active++;
+		}
+
+		try
+		{
+			return await task();
+		}
+		finally
+		{
+			const next = this.waiting.shift();
+			if (next)
+			{
+				next();
+			}
+			else
+			{
+				this.active--;
+			}
+		}
+	}
+}
@@ -0,0 +1,215 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ExplorerSharpItem } from "./ExplorerSharpItem";
+import { FileOperations } from "./fileOperations";
+import { exists, isSameOrInside, parentOf } from "./paths";
+import { Pins } from "./pins";
+
+
+const TREE_MIME = "application/vnd.code.tree.explorersharp";
+const URI_LIST_MIME = "text/uri-list";
+
+interface DropSource
+{
+	uri: vscode.Uri;
+	isDirectory: boolean;
+	move: boolean;
+}
+
+/**
+ * Moves items within the view and brings in entries dropped from the native
+ * explorer or the OS.
+ *
+ * A dragged item moves the entry it shows in its parent folder, which for a
+ * flattened `a/b/c.ts` or compacted `a/b/c` is the outermost folder `a`.
+ * Dropping onto a folder item puts entries in the deepest folder it stands for
+ * (`c` for `a/b/c`); dropping onto a file puts them next to that file.
+ *
+ * Within the Pinned group, dragging pinned entries reorders them, and anything
+ * else dropped onto the group gets pinned.
+ */
+export class ExplorerSharpDragAndDropController implements vscode.TreeDragAndDropController<ExplorerSharpItem>
+{
+	readonly dragMimeTypes = [TREE_MIME, URI_LIST_MIME];
+	readonly dropMimeTypes = [TREE_MIME, URI_LIST_MIME];
+
+	constructor(private readonly fileOperations: FileOperations, private readonly pins: Pins)
+	{
+	}
+
+	handleDrag(source: readonly ExplorerSharpItem[], dataTransfer: vscode.DataTransfer): void
+	{
+		const items = source.filter((item) => item.contextValue !== "workspaceFolder" && item.contextValue !== "pinnedGroup");
+		if (items.length === 0)
+		{
+			return;
+		}
+
+		const onDisk = items.filter((item) => item.contextValue !== "pinnedMissing");
+		dataTransfer.set(TREE_MIME, new vscode.DataTransferItem(items));
+		dataTransfer.set(URI_LIST_MIME, new vscode.DataTransferItem(onDisk.map((item) => this.draggedEntry(item).toString()).join("\r\n")));
+	}
+
+	async handleDrop(target: ExplorerSharpItem | undefined, dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void>
+	{
+		if (await this.dropOnPins(target, dataTransfer))
+		{
+			return;
+		}
+
+		const targetDir = this.dropDirectory(target);
+		const sources = targetDir && await this.dropSources(dataTransfer);
+		if (!targetDir || !sources || token.isCancellationRequested)
+		{
+			return;
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+
+		for (const source of sources)
+		{
+			if (isSameOrInside(targetDir.toString(), source.uri.toString()) || parentOf(source.uri).toString() === targetDir.toString())
+			{
+				continue;
+			}
+
+			const name = path.posix.basename(source.uri.path);
+			let destination = vscode.Uri.joinPath(targetDir, name);
+			let overwrite = false;
+
+			if (await exists(destination))
+			{
+				const choice = await this.askConflict(name);
+				if (!choice || choice === "Skip")
+				{
+					continue;
+				}
+				if (choice === "Keep Both")
+				{
+					destination = await this.fileOperations.availableName(targetDir, name);
+				}
+				overwrite = choice === "Replace";
+			}
+
+			if (source.move)
+			{
+				edit.renameFile(source.uri, destination, { overwrite });
+			}
+			else
+			{
+				await this.fileOperations.addCopy(source.uri, destination, source.isDirectory, edit, overwrite);
+			}
+		}
+
+		if (edit.size > 0)
+		{
+			await vscode.workspace.applyEdit(edit);
+		}
+	}
+
+	/** Handles drops into the Pinned group; returns false for drops meant for the file tree. */
+	private async dropOnPins(target: ExplorerSharpItem | undefined, dataTransfer: vscode.DataTransfer): Promise<boolean>
+	{
+		const onGroup = target?.contextValue === "pinnedGroup";
+		const onPin = target !== undefined && this.isPinEntry(target);
+		if (!onGroup && !onPin)
+		{
+			return false;
+		}
+
+		const treeItems = dataTransfer.get(TREE_MIME)?.value as ExplorerSharpItem[] | undefined;
+		if (treeItems && treeItems.every((item) => this.isPinEntry(item)))
+		{
+			await this.pins.move(treeItems.map((item) => item.diskUri), onPin ? target.diskUri : undefined);
+			return true;
+		}
+
+		if (!onGroup)
+		{
+			return false;
+		}
+
+		const sources = treeItems?.map((item) => item.diskUri) ?? (await this.dropSources(dataTransfer)).map((source) => source.uri);
+		await this.pins.add(sources);
+		return true;
+	}
+
+	private isPinEntry(item: ExplorerSharpItem): boolean
+	{
+		return item.parent?.contextValue === "pinnedGroup";
+	}
+
+	private draggedEntry(item: ExplorerSharpItem): vscode.Uri
+	{
+		return item.chain[0] ?? item.diskUri;
+	}
+
+	private dropDirectory(target: ExplorerSharpItem | undefined): vscode.Uri | undefined
+	{
+		if (!target)
+		{
+			const folders = vscode.workspace.workspaceFolders ?? [];
+			return folders.length === 1 ? folders[0].uri : undefined;
+		}
+
+		if (target.contextValue === "virtualFolder")
+		{
+			return undefined;
+		}
+
+		return target.isDirectory ? target.diskUri : parentOf(target.diskUri);
+	}
+
+	private async dropSources(dataTransfer: vscode.DataTransfer): Promise<DropSource[]>
+	{
+		const treeItems = dataTransfer.get(TREE_MIME)?.value as ExplorerSharpItem[] | undefined;
+		if (treeItems)
+		{
+			return treeItems.map((item) => ({ uri: this.draggedEntry(item), isDirectory: item.isDirectory || item.chain.length > 0, move: true }));
+		}
+
+		const uriList = await dataTransfer.get(URI_LIST_MIME)?.asString();
+		if (!uriList)
+		{
+			return [];
+		}
+
+		const sources: DropSource[] = [];
+		for (const line of uriList.split(/\r?\n/))
+		{
+			if (!line.trim() || line.startsWith("#"))
+			{
+				continue;
+			}
+
+			const uri = vscode.Uri.parse(line.trim());
+			try
+			{
+				const stat = await vscode.workspace.fs.stat(uri);
+				sources.push({
+					uri,
+					isDirectory: (stat.type & vscode.FileType.Directory) !== 0,
+					// Entries from inside the workspace are moved, entries from the OS are copied in.
+					move: vscode.workspace.getWorkspaceFolder(uri) !== undefined,
+				});
+			}
+			catch
+			{
+				// Not something on disk, e.g. a URL dragged from a browser.
+			}
+		}
+
+		return sources;
+	}
+
+	private askConflict(name: string): Thenable<string | undefined>
+	{
+		return vscode.window.showWarningMessage(
+			`A file or folder with the name '${name}' already exists in the destination folder.`,
+			{ modal: true },
+			"Replace",
+			"Keep Both",
+			"Skip",
+		);
+	}
+}
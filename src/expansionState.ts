@@ -0,0 +1,60 @@
+import * as vscode from "vscode";
+import { ExplorerSharpItem } from "./ExplorerSharpItem";
+
+
+const STATE_KEY = "explorerSharp.expandedFolders";
+const MAX_ENTRIES = 2000;
+
+/**
+ * Remembers which folders are expanded across refreshes and window reloads.
+ * State is kept per directory rather than per item, so a folder stays expanded
+ * when flattening folds it into, or unfolds it out of, a compacted chain.
+ * Files with nested children are kept by their own path.
+ */
+export class ExpansionState
+{
+	private readonly expanded: Set<string>;
+
+	constructor(private readonly memento: vscode.Memento)
+	{
+		this.expanded = new Set(memento.get<string[]>(STATE_KEY, []));
+	}
+
+	isExpanded(item: ExplorerSharpItem): boolean
+	{
+		return this.keysOf(item).some((key) => this.expanded.has(key));
+	}
+
+	expand(item: ExplorerSharpItem): void
+	{
+		for (const key of this.keysOf(item))
+		{
+			this.expanded.delete(key);
+			this.expanded.add(key);
+		}
+		this.save();
+	}
+
+	collapse(item: ExplorerSharpItem): void
+	{
+		for (const key of this.keysOf(item))
+		{
+			this.expanded.delete(key);
+		}
+		this.save();
+	}
+
+	private keysOf(item: ExplorerSharpItem): string[]
+	{
+		return item.isDirectory
+			? item.chain.map((dir) => dir.toString())
+			: [item.diskUri.toString()];
+	}
+
+	private save(): void
+	{
+		// Sets keep insertion order, so the least recently expanded folders are dropped first.
+		const entries = [...this.expanded].slice(-MAX_ENTRIES);
+		this.memento.update(STATE_KEY, entries);
+	}
+}
@@ -2,128 +2,1244 @@ import * as vscode from "vscode";
 import * as path from "path";
 import { ExplorerSharpItem } from "./ExplorerSharpItem";
 import { linq } from "./enumerable";
+import { isSameOrInside, parentOf, relativePathOf } from "./paths";
+import { ExplorerSharpSettings } from "./settings";
+import { DirectoryCache } from "./directoryCache";
+import { ExpansionState } from "./expansionState";
+import { GitStatus } from "./gitStatus";
+import { describeProblems, Problems } from "./problems";
+import { SORT_ORDERS, SortOrder, sortItems } from "./sortOrder";
+import { FileNester, NestingPatterns } from "./fileNesting";
+import { FilterResult, PathFilter } from "./pathFilter";
+import { Pins } from "./pins";
+import { itemSegments, pickSegment, Segment } from "./segments";
+import { compileGlobs, isGlobPattern } from "./glob";
+import { DotEntryMode, ExcludeSetting, HideRules } from "./hideRules";
+import { FlattenRules } from "./flattenRules";
+
+export type ItemLookup =
+	| { item: ExplorerSharpItem; reason?: undefined }
+	| { item?: undefined; reason: "outsideWorkspace" | "notFound" }
+	| { item?: undefined; reason: "hidden"; hiddenPath: string };
+
+function rootIdOf(folder: vscode.WorkspaceFolder): string
+{
+	return `workspaceFolder:${folder.uri.toString()}`;
+}
+
+type HiddenSetting = "hiddenFolders" | "hiddenFiles" | "hiddenPatterns";
+type FlattenSetting = "neverFlatten" | "alwaysCompact";
+
+interface HidePick extends vscode.QuickPickItem
+{
+	description: string;
+	setting: HiddenSetting;
+}
 
 export class ExplorerSharpProvider implements vscode.TreeDataProvider<ExplorerSharpItem>
 {
-	private _onDidChangeTreeData = new vscode.EventEmitter<ExplorerSharpItem | undefined | void>();
+	private _onDidChangeTreeData = new vscode.EventEmitter<ExplorerSharpItem | ExplorerSharpItem[] | undefined | void>();
 	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-	constructor(private workspaceRoot: vscode.Uri, private context: vscode.ExtensionContext)
+	readonly settings: ExplorerSharpSettings;
+	readonly listings = new DirectoryCache();
+	readonly expansion: ExpansionState;
+	readonly pins: Pins;
+	private rootItems = new Map<string, ExplorerSharpItem>();
+	private pinnedGroupItem: ExplorerSharpItem | undefined;
+	private virtualItems = new Map<string, ExplorerSharpItem>();
+	private hideRulesCache = new Map<string, HideRules>();
+	private flattenRulesCache = new Map<string, FlattenRules>();
+	private nestersCache = new Map<string, FileNester>();
+	private filterResult: FilterResult | undefined;
+	private filterGeneration = 0;
+	private dirItems = new Map<string, ExplorerSharpItem>();
+	private renderedChildren = new Map<ExplorerSharpItem | undefined, ExplorerSharpItem[]>();
+
+	constructor(private context: vscode.ExtensionContext, readonly gitStatus: GitStatus, readonly problems: Problems)
+	{
+		this.settings = new ExplorerSharpSettings(context.workspaceState);
+		this.expansion = new ExpansionState(context.workspaceState);
+		context.subscriptions.push(
+			this.settings,
+			this.settings.shared.onDidChange(() => this.refresh()),
+			this.settings.personal.onDidChange(() => this.refresh()),
+		);
+		this.settings.shared.loadAll();
+		this.pins = new Pins(context.workspaceState);
+		context.subscriptions.push(this.pins, this.pins.onDidChange(() => this._onDidChangeTreeData.fire()));
+		context.subscriptions.push(gitStatus.onDidChange(() =>
+		{
+			if (this.showOnlyChangedFiles)
+			{
+				this.refresh();
+			}
+		}));
+	}
+
+	refresh(element?: ExplorerSharpItem): void
+	{
+		this.hideRulesCache.clear();
+		this.flattenRulesCache.clear();
+		this.nestersCache.clear();
+		this.listings.clear();
+		this._onDidChangeTreeData.fire(element);
+	}
+
+	refreshFolder(folder: vscode.WorkspaceFolder | undefined): void
+	{
+		const root = folder && this.rootItems.get(folder.uri.toString());
+		this.refresh(root);
+	}
+
+	/**
+	 * Refreshes only the items whose children or flattening may have changed
+	 * because of entries created or deleted at `uris`.
+	 */
+	refreshForChanges(uris: vscode.Uri[], rulesChanged: boolean): void
+	{
+		const targets = new Set<ExplorerSharpItem | undefined>();
+		const virtualFolders = this.virtualFolderMatchers();
+
+		for (const uri of uris)
+		{
+			if (this.pinnedGroupItem && this.pins.touches(uri))
+			{
+				targets.add(this.pinnedGroupItem);
+			}
+
+			const folder = vscode.workspace.getWorkspaceFolder(uri);
+			if (!folder || (!rulesChanged && !this.showHiddenItems && this.isInsideHidden(folder, uri)))
+			{
+				continue;
+			}
+
+			for (const [item, touches] of virtualFolders)
+			{
+				if (touches(relativePathOf(folder, uri), uri.toString()))
+				{
+					targets.add(item);
+				}
+			}
+
+			const parentUri = parentOf(uri);
+			if (parentUri.toString() === folder.uri.toString())
+			{
+				targets.add(this.rootItems.get(folder.uri.toString()));
+				continue;
+			}
+
+			const item = this.dirItems.get(parentUri.toString());
+			if (item)
+			{
+				targets.add(item.contextValue === "workspaceFolder" ? item : item.parent);
+			}
+		}
+
+		// Rules are dropped even when nothing shown changed, so folders expanded later see the new rules.
+		if (rulesChanged)
+		{
+			this.hideRulesCache.clear();
+		}
+
+		if (targets.size === 0)
+		{
+			return;
+		}
+
+		this._onDidChangeTreeData.fire(targets.has(undefined) ? undefined : [...targets] as ExplorerSharpItem[]);
+	}
+
+	/**
+	 * For each shown virtual folder, a test of whether a change at a relative path
+	 * (and URI string) can alter its children: the path is one of its paths, lies
+	 * inside or above one, lies in or is a folder its globs match, or holds one of
+	 * the entries it shows.
+	 */
+	private virtualFolderMatchers(): [ExplorerSharpItem, (relativePath: string, uri: string) => boolean][]
+	{
+		const definitions = new Map(this.settings.virtualFolders().map((definition) => [definition.name, definition]));
+		const matchers: [ExplorerSharpItem, (relativePath: string, uri: string) => boolean][] = [];
+
+		for (const [name, item] of this.virtualItems)
+		{
+			const definition = definitions.get(name);
+			if (!definition)
+			{
+				continue;
+			}
+
+			const paths = definition.paths.filter((entry) => entry.trim() && !isGlobPattern(entry)).map((entry) => entry.replace(/^\/+|\/+$/g, ""));
+			const matches = compileGlobs(definition.paths.filter((entry) => isGlobPattern(entry)));
+			const shown = (this.renderedChildren.get(item) ?? []).map((child) => (child.chain[0] ?? child.diskUri).toString());
+
+			matchers.push([item, (relativePath, uri) =>
+				paths.some((entry) => isSameOrInside(relativePath, entry) || isSameOrInside(entry, relativePath))
+				|| relativePath.split("/").some((_, i, segments) => matches(segments.slice(0, i + 1).join("/")))
+				|| shown.some((child) => isSameOrInside(child, uri)),
+			]);
+		}
+
+		return matchers;
+	}
+
+	private isInsideHidden(folder: vscode.WorkspaceFolder, uri: vscode.Uri): boolean
+	{
+		return this.hiddenAncestorOf(folder, uri) !== undefined;
+	}
+
+	/** The outermost hidden path among `uri` and its ancestors, if any. */
+	private hiddenAncestorOf(folder: vscode.WorkspaceFolder, uri: vscode.Uri): string | undefined
+	{
+		const rules = this.hideRules(folder);
+		const segments = relativePathOf(folder, uri).split("/");
+
+		for (let i = 1; i <= segments.length; i++)
+		{
+			const ancestor = segments.slice(0, i).join("/");
+			if (rules.isHidden(ancestor, i < segments.length))
+			{
+				return ancestor;
+			}
+		}
+
+		return undefined;
+	}
+
+	workspaceFoldersChanged(): void
+	{
+		this.rootItems.clear();
+		this.pinnedGroupItem = undefined;
+		this.settings.shared.loadAll();
+		this.refresh();
+	}
+
+	getTreeItem(element: ExplorerSharpItem): vscode.TreeItem
+	{
+		return element;
+	}
+
+	/** Tooltips are built on hover so their problem summary is current without refreshing the tree. */
+	resolveTreeItem(item: vscode.TreeItem, element: ExplorerSharpItem): vscode.TreeItem
+	{
+		const count = this.problems.countWithin(element.chain[0] ?? element.diskUri);
+		const rollsUp = element.chain.length > 0;
+
+		// Flattened and compacted items list every path they stand for, outermost first.
+		const segments = this.isGroup(element) ? [] : itemSegments(element);
+		const paths = segments.length > 1 ? segments.map((segment) => segment.relativePath).join("\n") : element.relativePath;
+
+		item.tooltip = count
+			? `${paths}\n${rollsUp ? "Contains " : ""}${describeProblems(count)}`
+			: paths;
+		return item;
+	}
+
+	getParent(element: ExplorerSharpItem): ExplorerSharpItem | undefined
+	{
+		return element.parent;
+	}
+
+	/**
+	 * Finds the item that shows `uri`, loading the folders on the way when they
+	 * have not been expanded yet. Flattened and compacted items are matched by
+	 * any of the paths they stand for.
+	 */
+	async findItem(uri: vscode.Uri): Promise<ItemLookup>
+	{
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (!folder)
+		{
+			return { reason: "outsideWorkspace" };
+		}
+
+		const hiddenAncestor = this.showHiddenItems ? undefined : this.hiddenAncestorOf(folder, uri);
+		if (hiddenAncestor !== undefined)
+		{
+			return { reason: "hidden", hiddenPath: hiddenAncestor };
+		}
+
+		const target = uri.toString();
+		let parent: ExplorerSharpItem | undefined = this.rootItems.get(folder.uri.toString());
+		if (parent && folder.uri.toString() === target)
+		{
+			return { item: parent };
+		}
+
+		while (true)
+		{
+			const children = await this.childrenOf(parent);
+			const next = children.find((child) =>
+				child.diskUri.toString() === target
+				|| child.chain.some((dir) => isSameOrInside(target, dir.toString()))
+				|| child.nestedFiles.some((nested) => nested.diskUri.toString() === target));
+
+			if (!next)
+			{
+				return { reason: "notFound" };
+			}
+
+			const stopsHere = next.diskUri.toString() === target
+				|| next.chain.some((dir) => dir.toString() === target)
+				|| (!next.isDirectory && !next.nestedFiles.some((nested) => nested.diskUri.toString() === target));
+			if (stopsHere)
+			{
+				return { item: next };
+			}
+
+			parent = next;
+		}
+	}
+
+
+	get workspaceFolders(): readonly vscode.WorkspaceFolder[]
+	{
+		return vscode.workspace.workspaceFolders ?? [];
+	}
+
+	hiddenFolders(folder: vscode.WorkspaceFolder): string[]
+	{
+		return this.settings.get<string[]>(folder, "hiddenFolders", []);
+	}
+
+	hiddenFiles(folder: vscode.WorkspaceFolder): string[]
+	{
+		return this.settings.get<string[]>(folder, "hiddenFiles", []);
+	}
+
+	hiddenPatterns(folder: vscode.WorkspaceFolder): string[]
+	{
+		return this.settings.get<string[]>(folder, "hiddenPatterns", []);
+	}
+
+	private hideRules(folder: vscode.WorkspaceFolder): HideRules
+	{
+		const key = folder.uri.toString();
+		let rules = this.hideRulesCache.get(key);
+
+		if (!rules)
+		{
+			rules = new HideRules(folder, {
+				hiddenPaths: [...this.hiddenFolders(folder), ...this.hiddenFiles(folder)],
+				hiddenPatterns: this.hiddenPatterns(folder),
+				excludes: this.excludeSettings(folder),
+				useIgnoreFiles: this.settings.get<boolean>(folder, "useIgnoreFiles", false),
+				dotEntries: this.settings.get<DotEntryMode>(folder, "dotEntries", "hide"),
+				dotEntryAllowList: this.settings.get<string[]>(folder, "dotEntryAllowList", []),
+			}, this.listings);
+			this.hideRulesCache.set(key, rules);
+		}
+
+		return rules;
+	}
+
+	private flattenRules(folder: vscode.WorkspaceFolder): FlattenRules
+	{
+		const key = folder.uri.toString();
+		let rules = this.flattenRulesCache.get(key);
+
+		if (!rules)
+		{
+			rules = new FlattenRules(
+				this.settings.get<string[]>(folder, "neverFlatten", []),
+				this.settings.get<string[]>(folder, "alwaysCompact", []),
+				this.settings.get<number>(folder, "maxCompactionDepth", 0),
+			);
+			this.flattenRulesCache.set(key, rules);
+		}
+
+		return rules;
+	}
+
+	/** Nesting rules of `folder`, or undefined while file nesting is off. */
+	private fileNester(folder: vscode.WorkspaceFolder): FileNester | undefined
+	{
+		if (!this.settings.get<boolean>(folder, "fileNestingEnabled", false))
+		{
+			return undefined;
+		}
+
+		const key = folder.uri.toString();
+		let nester = this.nestersCache.get(key);
+
+		if (!nester)
+		{
+			nester = new FileNester(this.settings.get<NestingPatterns>(folder, "fileNestingPatterns", {}));
+			this.nestersCache.set(key, nester);
+		}
+
+		return nester.isEmpty ? undefined : nester;
+	}
+
+	async importFileNesting(): Promise<void>
+	{
+		const explorer = vscode.workspace.getConfiguration("explorer.fileNesting");
+		const patterns = explorer.get<NestingPatterns>("patterns", {});
+		const config = this.settings.config();
+
+		await config.update("fileNestingPatterns", patterns, vscode.ConfigurationTarget.Workspace);
+		await config.update("fileNestingEnabled", explorer.get<boolean>("enabled", false) || Object.keys(patterns).length > 0, vscode.ConfigurationTarget.Workspace);
+		vscode.window.showInformationMessage(`ExplorerSharp: Imported ${Object.keys(patterns).length} file nesting patterns from the explorer settings.`);
+		this.refresh();
+	}
+
+	private excludeSettings(folder: vscode.WorkspaceFolder): ExcludeSetting[]
+	{
+		const excludes: ExcludeSetting[] = [];
+
+		if (this.settings.get<boolean>(folder, "useFilesExclude", true))
+		{
+			excludes.push(vscode.workspace.getConfiguration("files", folder.uri).get<ExcludeSetting>("exclude", {}));
+		}
+
+		if (this.settings.get<boolean>(folder, "useSearchExclude", false))
+		{
+			excludes.push(vscode.workspace.getConfiguration("search", folder.uri).get<ExcludeSetting>("exclude", {}));
+		}
+
+		return excludes;
+	}
+
+	shouldFlattenSingleFile(folder: vscode.WorkspaceFolder): boolean
+	{
+		return this.settings.get<boolean>(folder, "flattenSingleFileDirectories", true);
+	}
+
+	private shouldFlattenSingleChild(folder: vscode.WorkspaceFolder): boolean
+	{
+		return this.settings.get<boolean>(folder, "flattenSingleChildDirectories", true);
+	}
+
+	async hideFolderFromItem(item: any): Promise<void>
+	{
+		const target = await this.resolveTarget(item, "Select the folder to hide", (segment) => segment.isDirectory);
+		if (!target)
+		{
+			return;
+		}
+
+		const folderName = path.posix.basename(target.relativePath);
+		await this.pickAndHide(target.folder, `Hide ${target.relativePath}`, [
+			{ label: "Hide this path", description: target.relativePath, setting: "hiddenFolders" },
+			{ label: `Hide all folders named "${folderName}"`, description: `**/${folderName}/`, setting: "hiddenPatterns" },
+		]);
+	}
+
+	async hideFileFromItem(item: any): Promise<void>
+	{
+		const target = await this.resolveTarget(item, "Select the file to hide", (segment) => !segment.isDirectory);
+		if (!target)
+		{
+			return;
+		}
+
+		const fileName = path.posix.basename(target.relativePath);
+		const extension = path.posix.extname(fileName);
+		const picks: HidePick[] = [
+			{ label: "Hide this file", description: target.relativePath, setting: "hiddenFiles" },
+			{ label: `Hide all files named "${fileName}"`, description: `**/${fileName}`, setting: "hiddenPatterns" },
+		];
+		if (extension && extension !== fileName)
+		{
+			picks.push({ label: `Hide all "*${extension}" files`, description: `**/*${extension}`, setting: "hiddenPatterns" });
+		}
+
+		await this.pickAndHide(target.folder, `Hide ${target.relativePath}`, picks);
+	}
+
+	/** The path a hide command applies to; on flattened and compacted items the user picks one of their segments. */
+	private async resolveTarget(item: any, placeHolder: string, filter: (segment: Segment) => boolean): Promise<{ folder: vscode.WorkspaceFolder; relativePath: string } | undefined>
+	{
+		let folder: vscode.WorkspaceFolder | undefined;
+		let relativePath: string | undefined;
+
+		if (item instanceof vscode.Uri)
+		{
+			folder = vscode.workspace.getWorkspaceFolder(item);
+			relativePath = folder && relativePathOf(folder, item);
+		}
+		else if (item instanceof ExplorerSharpItem)
+		{
+			folder = item.workspaceFolder;
+			relativePath = (await pickSegment(item, placeHolder, filter))?.relativePath;
+		}
+
+		return folder && relativePath ? { folder, relativePath } : undefined;
+	}
+
+	private async pickAndHide(folder: vscode.WorkspaceFolder, placeHolder: string, picks: HidePick[]): Promise<void>
+	{
+		const picked = await vscode.window.showQuickPick(picks, { placeHolder });
+		if (picked)
+		{
+			await this.addHiddenEntry(folder, picked.setting, picked.description);
+		}
+	}
+
+	private async addHiddenEntry(folder: vscode.WorkspaceFolder, setting: HiddenSetting, entry: string): Promise<void>
+	{
+		if (this.settings.get<string[]>(folder, setting, []).includes(entry))
+		{
+			return;
+		}
+
+		const layer = await this.settings.pickLayer(folder);
+		if (layer && await this.settings.addEntry(folder, setting, entry, layer))
+		{
+			this.refreshFolder(folder);
+		}
+	}
+
+	async unhideFolderFromItem(item: any): Promise<void>
+	{
+		// Entries inside a hidden folder unhide that folder.
+		while (item instanceof ExplorerSharpItem && item.isHiddenEntry && !item.hiddenReason && item.parent)
+		{
+			item = item.parent;
+		}
+
+		if (item instanceof ExplorerSharpItem && item.relativePath)
+		{
+			await this.unhideItem(item, "hiddenFolders");
+			return;
+		}
+
+		await this.pickAndUnhide(["hiddenFolders", "hiddenPatterns"], "Select a folder to unhide", "ExplorerSharp: No hidden folders.");
+	}
+
+	async unhideFileFromItem(item: any): Promise<void>
+	{
+		if (item instanceof ExplorerSharpItem && item.relativePath)
+		{
+			await this.unhideItem(item, "hiddenFiles");
+			return;
+		}
+
+		await this.pickAndUnhide(["hiddenFiles", "hiddenPatterns"], "Select a file to unhide", "ExplorerSharp: No hidden files.");
+	}
+
+	private async unhideItem(item: ExplorerSharpItem, setting: HiddenSetting): Promise<void>
+	{
+		const reason = item.hiddenReason;
+
+		switch (reason?.kind)
+		{
+			case "pattern":
+			{
+				const remove = "Remove Pattern";
+				const answer = await vscode.window.showInformationMessage(
+					`ExplorerSharp: ${item.relativePath} is hidden by the pattern "${reason.pattern}".`, remove);
+				if (answer === remove)
+				{
+					await this.unhideEntry(item.workspaceFolder, "hiddenPatterns", reason.pattern);
+				}
+				return;
+			}
+			case "dotEntry":
+				vscode.window.showInformationMessage(`ExplorerSharp: ${item.relativePath} is hidden by the "explorerSharp.dotEntries" setting.`);
+				return;
+			case "exclude":
+				vscode.window.showInformationMessage(`ExplorerSharp: ${item.relativePath} is hidden by the exclude pattern "${reason.pattern}".`);
+				return;
+			case "ignoreFile":
+				vscode.window.showInformationMessage(`ExplorerSharp: ${item.relativePath} is ignored by a .gitignore or .ignore file.`);
+				return;
+			case "ruleFile":
+			{
+				const open = "Open Rule File";
+				const answer = await vscode.window.showInformationMessage(
+					`ExplorerSharp: ${item.relativePath} is hidden by the pattern "${reason.pattern}" in ${reason.file}.`, open);
+				if (answer === open)
+				{
+					await vscode.window.showTextDocument(vscode.Uri.joinPath(item.workspaceFolder.uri, reason.file));
+				}
+				return;
+			}
+			default:
+				await this.unhideEntry(item.workspaceFolder, setting, item.relativePath);
+		}
+	}
+
+	private async pickAndUnhide(settings: HiddenSetting[], placeHolder: string, emptyMessage: string): Promise<void>
+	{
+		const multiRoot = this.workspaceFolders.length > 1;
+		const picks = linq<vscode.WorkspaceFolder>(this.workspaceFolders)
+			.selectMany((folder) => linq<HiddenSetting>(settings)
+				.selectMany((setting) => linq<string>(this.settings.get<string[]>(folder, setting, [])).select((entry) => ({
+					label: entry,
+					description: [setting === "hiddenPatterns" ? "pattern" : "", multiRoot ? folder.name : ""].filter((part) => part).join(" · "),
+					folder,
+					setting,
+				}))))
+			.toArray();
+
+		if (picks.length === 0)
+		{
+			vscode.window.showInformationMessage(emptyMessage);
+			return;
+		}
+
+		const picked = await vscode.window.showQuickPick(picks, { placeHolder });
+		if (picked)
+		{
+			await this.unhideEntry(picked.folder, picked.setting, picked.label);
+		}
+	}
+
+	private async unhideEntry(folder: vscode.WorkspaceFolder, setting: HiddenSetting, entry: string): Promise<void>
+	{
+		await this.settings.removeEntry(folder, setting, entry);
+		this.refreshFolder(folder);
+	}
+
+	async unhideAllFolders(): Promise<void>
+	{
+		const settings: HiddenSetting[] = ["hiddenFolders", "hiddenFiles", "hiddenPatterns"];
+		let layers = this.settings.layers;
+
+		// The shared file is committed, so clearing it affects everyone working in the repository.
+		const sharedRules = this.workspaceFolders.some((folder) => settings.some((setting) => this.settings.listIn(folder, setting, "shared").length > 0));
+		if (sharedRules)
+		{
+			const all = "Include Shared Rules";
+			const mine = "Only My Rules";
+			const answer = await vscode.window.showWarningMessage(
+				"ExplorerSharp: Some hide rules come from .explorersharp.json, which is shared with everyone working in this repository. Remove those as well?",
+				{ modal: true }, all, mine);
+			if (!answer)
+			{
+				return;
+			}
+			if (answer === mine)
+			{
+				layers = layers.filter((layer) => layer !== "shared");
+			}
+		}
+
+		for (const folder of this.workspaceFolders)
+		{
+			for (const setting of settings)
+			{
+				for (const layer of layers)
+				{
+					if (this.settings.listIn(folder, setting, layer).length > 0)
+					{
+						await this.settings.updateList(folder, setting, layer, []);
+					}
+				}
+			}
+		}
+		this.refresh();
+	}
+
+	async neverFlattenFromItem(item: any): Promise<void>
+	{
+		await this.addFlattenOverride(item, "neverFlatten", "Select the folder that should keep its own node");
+	}
+
+	async alwaysCompactFromItem(item: any): Promise<void>
+	{
+		await this.addFlattenOverride(item, "alwaysCompact", "Select the folder that should always be flattened");
+	}
+
+	private async addFlattenOverride(item: any, setting: FlattenSetting, placeHolder: string): Promise<void>
 	{
+		if (!(item instanceof ExplorerSharpItem))
+		{
+			return;
+		}
+
+		const segment = await pickSegment(item, placeHolder, (candidate) => candidate.isDirectory);
+		const layer = segment && await this.settings.pickLayer(item.workspaceFolder);
+		if (!segment || !layer)
+		{
+			return;
+		}
+
+		// A folder takes only one of the two overrides.
+		const other: FlattenSetting = setting === "neverFlatten" ? "alwaysCompact" : "neverFlatten";
+		await this.settings.removeEntry(item.workspaceFolder, other, segment.relativePath);
+		await this.settings.addEntry(item.workspaceFolder, setting, segment.relativePath, layer);
+		this.refreshFolder(item.workspaceFolder);
+	}
+
+	/** Removes the flatten overrides that apply to the folders of `item`. */
+	async restoreFlatteningFromItem(item: any): Promise<void>
+	{
+		if (!(item instanceof ExplorerSharpItem))
+		{
+			return;
+		}
+
+		const folder = item.workspaceFolder;
+		const paths = itemSegments(item).filter((segment) => segment.isDirectory).map((segment) => segment.relativePath);
+		const picks = (["neverFlatten", "alwaysCompact"] as FlattenSetting[]).flatMap((setting) =>
+			this.settings.get<string[]>(folder, setting, [])
+				.filter((entry) => paths.some((relativePath) => compileGlobs([entry])(relativePath)))
+				.map((entry) => ({ label: entry, description: setting === "neverFlatten" ? "never flatten" : "always compact", setting })));
+
+		if (picks.length === 0)
+		{
+			vscode.window.showInformationMessage(`ExplorerSharp: No flatten override applies to ${item.folderPath ?? item.relativePath}.`);
+			return;
+		}
+
+		const picked = picks.length === 1 ? picks[0] : await vscode.window.showQuickPick(picks, { placeHolder: "Select the override to remove" });
+		if (picked)
+		{
+			await this.settings.removeEntry(folder, picked.setting, picked.label);
+			this.refreshFolder(folder);
+		}
+	}
+
+	/** Opens the merged configuration of every workspace folder, with the value each layer contributes. */
+	async showEffectiveConfig(): Promise<void>
+	{
+		const config = {
+			precedence: "Lists are merged across layers. Other values: personal overlay > active profile > VS Code settings > .explorersharp.json > defaults.",
+			folders: Object.fromEntries(this.workspaceFolders.map((folder) => [folder.name, this.settings.describe(folder)])),
+		};
+
+		const document = await vscode.workspace.openTextDocument({ language: "json", content: JSON.stringify(config, undefined, 2) });
+		await vscode.window.showTextDocument(document, { preview: true });
 	}
 
-	refresh(): void
+	get dotEntriesVisible(): boolean
 	{
-		this._onDidChangeTreeData.fire();
+		return this.settings.config().get<DotEntryMode>("dotEntries", "hide") === "show";
 	}
 
-	getTreeItem(element: ExplorerSharpItem): vscode.TreeItem
+	async toggleDotEntries(): Promise<void>
 	{
-		return element;
+		const config = this.settings.config();
+		let mode: DotEntryMode = "show";
+
+		if (this.dotEntriesVisible)
+		{
+			mode = config.get<string[]>("dotEntryAllowList", []).length > 0 ? "allowList" : "hide";
+		}
+
+		await config.update("dotEntries", mode, vscode.ConfigurationTarget.Workspace);
+		this.refresh();
 	}
 
+	sortOrder(folder: vscode.WorkspaceFolder): SortOrder
+	{
+		return this.settings.config(folder).get<SortOrder>("sortOrder", "default");
+	}
 
-	public get config(): vscode.WorkspaceConfiguration
+	sortDescending(folder: vscode.WorkspaceFolder): boolean
 	{
-		return vscode.workspace.getConfiguration("explorerSharp");
+		return this.settings.config(folder).get<boolean>("sortDescending", false);
 	}
 
-	get hiddenFolders(): string[]
+	async pickSortOrder(): Promise<void>
 	{
-		return this.config.get<string[]>("hiddenFolders", []);
+		const config = this.settings.config();
+		const current = config.get<SortOrder>("sortOrder", "default");
+		const currentDescending = config.get<boolean>("sortDescending", false);
+
+		const picks = SORT_ORDERS.flatMap(({ order, label }) => [false, true].map((descending) => ({
+			label: `${label}${descending ? " (Descending)" : ""}`,
+			description: order === current && descending === currentDescending ? "current" : undefined,
+			order,
+			descending,
+		})));
+
+		const picked = await vscode.window.showQuickPick(picks, { placeHolder: "Sort ExplorerSharp entries by" });
+		if (!picked)
+		{
+			return;
+		}
+
+		await config.update("sortOrder", picked.order, vscode.ConfigurationTarget.Workspace);
+		await config.update("sortDescending", picked.descending, vscode.ConfigurationTarget.Workspace);
+		this.refresh();
 	}
 
-	get shouldFlattenSingleFile(): boolean
+	get showHiddenItems(): boolean
 	{
-		return this.config.get<boolean>("flattenSingleFileDirectories", true);
+		return this.context.workspaceState.get<boolean>("explorerSharp.showHiddenItems", false);
 	}
 
-	private get shouldFlattenSingleChild(): boolean
+	async setShowHiddenItems(show: boolean): Promise<void>
 	{
-		return this.config.get<boolean>("flattenSingleChildDirectories", true);
+		await this.context.workspaceState.update("explorerSharp.showHiddenItems", show);
+		await vscode.commands.executeCommand("setContext", "explorerSharp.showingHiddenItems", show);
+		this.refresh();
 	}
 
-	async hideFolderFromItem(item: any): Promise<void>
+	get showOnlyChangedFiles(): boolean
 	{
-		let folderPath: string | undefined;
+		return this.settings.config().get<boolean>("showOnlyChangedFiles", false);
+	}
 
-		if (item instanceof vscode.Uri)
+	async setShowOnlyChangedFiles(show: boolean): Promise<void>
+	{
+		await this.settings.config().update("showOnlyChangedFiles", show, vscode.ConfigurationTarget.Workspace);
+		this.refresh();
+	}
+
+	/**
+	 * Whether an entry survives the "only changed files" option and the path
+	 * filter; folders stay when anything below them passes.
+	 */
+	private passesFilters(uri: vscode.Uri, isDirectory: boolean): boolean
+	{
+		return (!this.showOnlyChangedFiles || this.gitStatus.isChanged(uri, isDirectory))
+			&& (!this.filterResult || this.filterResult.contains(uri, isDirectory));
+	}
+
+	get filter(): FilterResult | undefined
+	{
+		return this.filterResult;
+	}
+
+	setFilter(result: FilterResult | undefined): void
+	{
+		this.filterResult = result;
+		this.filterGeneration++;
+		this.refresh();
+	}
+
+	/** Walks every workspace folder for files matching `filter`, skipping whatever the view hides and hidden folders. */
+	async findMatches(filter: PathFilter, token: vscode.CancellationToken): Promise<FilterResult | undefined>
+	{
+		const result = new FilterResult(filter);
+
+		await Promise.all(this.workspaceFolders.map((folder) => this.walkVisible(folder, (uri, relativePath, isDirectory) =>
+		{
+			if (!isDirectory && filter.matches(relativePath))
+			{
+				result.add(uri, folder.uri);
+			}
+			return isDirectory;
+		}, token)));
+
+		return token.isCancellationRequested ? undefined : result;
+	}
+
+	/**
+	 * Visits every entry of `folder` the view would show, in the background.
+	 * `visit` returns whether to walk into a directory. Hidden folders are never
+	 * walked into, even while hidden items are shown, and the walk lists
+	 * directories through its own cache so its listings are dropped when it
+	 * ends instead of filling the view's.
+	 */
+	private async walkVisible(
+		folder: vscode.WorkspaceFolder,
+		visit: (uri: vscode.Uri, relativePath: string, isDirectory: boolean) => boolean,
+		token?: vscode.CancellationToken,
+	): Promise<void>
+	{
+		const rules = this.hideRules(folder);
+		const showHidden = this.showHiddenItems;
+		const listings = new DirectoryCache();
+
+		const walk = async (dirUri: vscode.Uri): Promise<void> =>
+		{
+			if (token?.isCancellationRequested)
+			{
+				return;
+			}
+
+			let entries: [string, vscode.FileType][];
+			try
+			{
+				[entries] = await Promise.all([
+					listings.read(dirUri),
+					rules.prepare(relativePathOf(folder, dirUri), listings),
+				]);
+			}
+			catch
+			{
+				return;
+			}
+
+			const siblings = new Set(entries.map(([name]) => name));
+
+			await Promise.all(entries.map(async ([name, type]) =>
+			{
+				const uri = vscode.Uri.joinPath(dirUri, name);
+				const relativePath = relativePathOf(folder, uri);
+				const isDirectory = type === vscode.FileType.Directory;
+
+				if ((isDirectory || !showHidden) && rules.isHidden(relativePath, isDirectory, siblings))
+				{
+					return;
+				}
+
+				if (visit(uri, relativePath, isDirectory))
+				{
+					await walk(uri);
+				}
+			}));
+		};
+
+		await walk(folder.uri);
+	}
+
+	/** Filtered trees get their own ids, so the view expands them instead of reusing the state of the full tree. */
+	private treeRootId(folder: vscode.WorkspaceFolder): string
+	{
+		return this.filterResult ? `${rootIdOf(folder)}|filter${this.filterGeneration}` : rootIdOf(folder);
+	}
+
+	async getChildren(element?: ExplorerSharpItem): Promise<ExplorerSharpItem[]>
+	{
+		const children = await this.loadChildren(element);
+		this.track(element, children);
+		return children;
+	}
+
+	/**
+	 * The children the view already shows for `element`, loading them only when
+	 * it has not been expanded yet. Reusing the rendered items keeps them the
+	 * same instances the view knows, so targeted refreshes still find them.
+	 */
+	async childrenOf(element?: ExplorerSharpItem): Promise<ExplorerSharpItem[]>
+	{
+		return this.renderedChildren.get(element) ?? await this.getChildren(element);
+	}
+
+	private async loadChildren(element?: ExplorerSharpItem): Promise<ExplorerSharpItem[]>
+	{
+		if (element && !element.isDirectory)
+		{
+			return element.nestedFiles;
+		}
+
+		if (element?.contextValue === "pinnedGroup")
 		{
-			folderPath = vscode.workspace.asRelativePath(item, false);
+			return this.loadPinnedItems();
 		}
 
-		folderPath ??= item?.folderPath ?? item?.relativePath;
+		if (element?.contextValue === "virtualFolder")
+		{
+			return this.loadVirtualFolder(element);
+		}
 
-		if (!folderPath)
+		if (element)
 		{
-			return;
+			return this.readDirectory(element.workspaceFolder, element.diskUri, element.isHiddenEntry);
+		}
+
+		const folders = this.workspaceFolders;
+		if (folders.length === 0)
+		{
+			return [];
 		}
 
-		const hidden = this.hiddenFolders;
-		if (!linq(hidden).contains(folderPath))
+		const groups = [
+			...this.pins.uris.length > 0 ? [this.pinnedGroup] : [],
+			...this.virtualFolderItems(),
+		];
+
+		if (folders.length === 1)
 		{
-			hidden.push(folderPath);
-			await this.config.update("hiddenFolders", hidden, vscode.ConfigurationTarget.Workspace);
-			this.refresh();
+			return [...groups, ...await this.readDirectory(folders[0], folders[0].uri)];
 		}
+
+		return [...groups, ...linq<vscode.WorkspaceFolder>(folders).select((folder) => this.getRootItem(folder))];
 	}
 
-	async unhideFolderFromItem(item: any): Promise<void>
+	/** Synthetic top-level nodes whose children come from elsewhere in the tree. */
+	private isGroup(item: ExplorerSharpItem): boolean
+	{
+		return item.contextValue === "pinnedGroup" || item.contextValue === "virtualFolder";
+	}
+
+	/** One item per virtual folder setting, reused across refreshes so they can be refreshed on their own. */
+	private virtualFolderItems(): ExplorerSharpItem[]
 	{
-		if (item?.relativePath)
+		const items = new Map<string, ExplorerSharpItem>();
+
+		for (const definition of this.settings.virtualFolders())
 		{
-			await this.unhideFolder(item.relativePath);
-			return;
+			const item = this.virtualItems.get(definition.name) ?? new ExplorerSharpItem({
+				label: definition.name,
+				uri: vscode.Uri.from({ scheme: "explorersharp", path: `/virtual/${definition.name}` }),
+				relativePath: "",
+				isDirectory: true,
+				workspaceFolder: this.workspaceFolders[0],
+			});
+			item.id = `virtual:${definition.name}`;
+			item.contextValue = "virtualFolder";
+			item.chain = [];
+			item.iconPath = new vscode.ThemeIcon("folder-library");
+			item.tooltip = definition.paths.join("\n");
+			items.set(definition.name, item);
+		}
+
+		this.virtualItems = items;
+		return [...items.values()];
+	}
+
+	/**
+	 * Children of a virtual folder: the entries its paths and globs match in every
+	 * workspace folder, hidden and flattened like the same entries in the tree.
+	 */
+	private async loadVirtualFolder(group: ExplorerSharpItem): Promise<ExplorerSharpItem[]>
+	{
+		const definition = this.settings.virtualFolders().find((folder) => folder.name === group.label);
+		if (!definition)
+		{
+			return [];
 		}
 
-		const hidden = this.hiddenFolders;
-		if (hidden.length === 0)
+		const paths = definition.paths.filter((entry) => entry.trim() && !isGlobPattern(entry));
+		const matches = compileGlobs(definition.paths.filter((entry) => isGlobPattern(entry)));
+		const seen = new Set<string>();
+		const items: ExplorerSharpItem[] = [];
+
+		for (const folder of this.workspaceFolders)
+		{
+			const found: [vscode.Uri, boolean][] = [];
+			const rules = this.hideRules(folder);
+
+			for (const entry of paths)
+			{
+				const uri = vscode.Uri.joinPath(folder.uri, entry);
+				try
+				{
+					const stat = await vscode.workspace.fs.stat(uri);
+					if (this.showHiddenItems || this.hiddenAncestorOf(folder, uri) === undefined)
+					{
+						found.push([uri, (stat.type & vscode.FileType.Directory) !== 0]);
+					}
+				}
+				catch
+				{
+					// Not in this workspace folder.
+				}
+			}
+
+			if (paths.length !== definition.paths.length)
+			{
+				// Matched folders are shown whole, so the walk does not go into them.
+				await this.walkVisible(folder, (uri, relativePath, isDirectory) =>
+				{
+					if (matches(relativePath))
+					{
+						found.push([uri, isDirectory]);
+						return false;
+					}
+					return isDirectory;
+				});
+			}
+
+			for (const [uri, isDirectory] of found)
+			{
+				if (seen.has(uri.toString()) || !this.passesFilters(uri, isDirectory))
+				{
+					continue;
+				}
+				seen.add(uri.toString());
+
+				const relativePath = relativePathOf(folder, uri);
+				const label = path.posix.basename(uri.path);
+				const item = isDirectory
+					? await this.tryFlatten(folder, uri, relativePath, rules) ?? new ExplorerSharpItem({ label, uri, relativePath, isDirectory, workspaceFolder: folder })
+					: new ExplorerSharpItem({ label, uri, relativePath, isDirectory, workspaceFolder: folder });
+
+				// Entries come from all over the workspace, so each one says where it lives.
+				const location = path.posix.dirname(relativePath);
+				item.description = location === "." ? folder.name : location;
+				items.push(item);
+			}
+		}
+
+		return sortItems(items, this.sortOrder(this.workspaceFolders[0]), this.sortDescending(this.workspaceFolders[0]));
+	}
+
+	/** The "Pinned" group shown above the workspace tree while anything is pinned. */
+	private get pinnedGroup(): ExplorerSharpItem
+	{
+		if (!this.pinnedGroupItem)
+		{
+			const group = new ExplorerSharpItem({
+				label: "Pinned",
+				uri: vscode.Uri.from({ scheme: "explorersharp", path: "/pinned" }),
+				relativePath: "",
+				isDirectory: true,
+				workspaceFolder: this.workspaceFolders[0],
+			});
+			group.id = "pinned";
+			group.contextValue = "pinnedGroup";
+			group.chain = [];
+			group.iconPath = new vscode.ThemeIcon("pinned");
+			group.tooltip = "Pinned files and folders";
+			group.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+			this.pinnedGroupItem = group;
+		}
+
+		return this.pinnedGroupItem;
+	}
+
+	private async loadPinnedItems(): Promise<ExplorerSharpItem[]>
+	{
+		const folders = this.workspaceFolders;
+
+		return Promise.all(this.pins.uris.map(async (uri) =>
+		{
+			const folder = vscode.workspace.getWorkspaceFolder(uri) ?? folders[0];
+			const relativePath = relativePathOf(folder, uri);
+			const label = path.posix.basename(uri.path);
+			let stat: vscode.FileStat | undefined;
+
+			try
+			{
+				stat = await vscode.workspace.fs.stat(uri);
+			}
+			catch
+			{
+				const missing = new ExplorerSharpItem({ label, uri, relativePath, isDirectory: false, workspaceFolder: folder });
+				missing.contextValue = "pinnedMissing";
+				missing.description = "missing";
+				missing.iconPath = new vscode.ThemeIcon("warning");
+				missing.command = undefined;
+				return missing;
+			}
+
+			const isDirectory = (stat.type & vscode.FileType.Directory) !== 0;
+			const item = new ExplorerSharpItem({ label, uri, relativePath, isDirectory, workspaceFolder: folder });
+			item.contextValue = isDirectory ? "pinnedFolder" : "pinnedFile";
+			const location = path.posix.dirname(vscode.workspace.asRelativePath(uri));
+			item.description = location === "." ? folder.name : location;
+			return item;
+		}));
+	}
+
+	private isInGroup(item: ExplorerSharpItem | undefined): boolean
+	{
+		for (let current = item; current; current = current.parent)
+		{
+			if (this.isGroup(current))
+			{
+				return true;
+			}
+		}
+		return false;
+	}
+
+	async pinItem(item: any): Promise<void>
+	{
+		let uri: vscode.Uri | undefined;
+
+		if (item instanceof ExplorerSharpItem)
+		{
+			uri = (await pickSegment(item, "Select what to pin"))?.uri;
+		}
+		else
+		{
+			uri = item instanceof vscode.Uri ? item : vscode.window.activeTextEditor?.document.uri;
+		}
+
+		if (uri)
+		{
+			await this.pins.add([uri]);
+		}
+	}
+
+	async unpinItem(item: any): Promise<void>
+	{
+		if (item instanceof ExplorerSharpItem)
 		{
-			vscode.window.showInformationMessage("ExplorerSharp: No hidden folders.");
+			await this.pins.remove([item.diskUri]);
 			return;
 		}
 
-		const picked = await vscode.window.showQuickPick(hidden, {
-			placeHolder: "Select a folder to unhide",
-		});
-		if (picked)
+		const picked = await vscode.window.showQuickPick(
+			this.pins.uris.map((uri) => ({ label: path.posix.basename(uri.path), description: vscode.workspace.asRelativePath(uri), uri })),
+			{ placeHolder: "Select what to unpin", canPickMany: true },
+		);
+		if (picked && picked.length > 0)
 		{
-			await this.unhideFolder(picked);
+			await this.pins.remove(picked.map((pick) => pick.uri));
 		}
 	}
 
-	private async unhideFolder(relativePath: string): Promise<void>
+	private track(parent: ExplorerSharpItem | undefined, children: ExplorerSharpItem[]): void
 	{
-		const filtered = linq(this.hiddenFolders).where((f) => f !== relativePath).toArray();
-		await this.config.update("hiddenFolders", filtered, vscode.ConfigurationTarget.Workspace);
-		this.refresh();
+		this.untrack(parent);
+		// Groups show directories a second time; file changes are routed to the main tree.
+		const grouped = this.isInGroup(parent);
+
+		for (const child of children)
+		{
+			child.parent = parent;
+			child.updateResourceUri();
+			if (child.contextValue !== "workspaceFolder" && !this.isGroup(child))
+			{
+				// Nested files sit next to their parent file, not inside it.
+				const parentDir = !parent ? child.workspaceFolder.uri : parent.isDirectory ? parent.diskUri : parentOf(parent.diskUri);
+				const parentId = parent && parent.contextValue !== "workspaceFolder" ? parent.id : this.treeRootId(child.workspaceFolder);
+				child.id = `${parentId}>${path.posix.relative(parentDir.path, child.diskUri.path)}`;
+
+				if (child.collapsibleState !== vscode.TreeItemCollapsibleState.None)
+				{
+					// Everything left in a filtered tree leads to a match, so it is shown expanded.
+					child.collapsibleState = this.filterResult || this.expansion.isExpanded(child)
+						? vscode.TreeItemCollapsibleState.Expanded
+						: vscode.TreeItemCollapsibleState.Collapsed;
+				}
+			}
+			for (const dir of grouped ? [] : child.chain)
+			{
+				this.dirItems.set(dir.toString(), child);
+			}
+		}
+
+		this.renderedChildren.set(parent, children);
 	}
 
-	async unhideAllFolders(): Promise<void>
+	private untrack(parent: ExplorerSharpItem | undefined): void
 	{
-		await this.config.update("hiddenFolders", [], vscode.ConfigurationTarget.Workspace);
-		this.refresh();
+		for (const child of this.renderedChildren.get(parent) ?? [])
+		{
+			this.untrack(child);
+			for (const dir of child.chain)
+			{
+				if (this.dirItems.get(dir.toString()) === child)
+				{
+					this.dirItems.delete(dir.toString());
+				}
+			}
+		}
+
+		this.renderedChildren.delete(parent);
 	}
 
-	async getChildren(element?: ExplorerSharpItem): Promise<ExplorerSharpItem[]>
+	private getRootItem(folder: vscode.WorkspaceFolder): ExplorerSharpItem
 	{
-		if (!this.workspaceRoot)
+		const key = folder.uri.toString();
+		let root = this.rootItems.get(key);
+
+		if (!root)
 		{
-			return [];
+			root = new ExplorerSharpItem({ label: folder.name, uri: folder.uri, relativePath: "", isDirectory: true, workspaceFolder: folder });
+			root.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+			root.contextValue = "workspaceFolder";
+			root.tooltip = folder.uri.fsPath;
+			root.id = rootIdOf(folder);
+			this.rootItems.set(key, root);
 		}
 
-		const dirUri = element ? element.diskUri : this.workspaceRoot;
-		return this.readDirectory(dirUri);
+		return root;
 	}
 
-	private async readDirectory(dirUri: vscode.Uri): Promise<ExplorerSharpItem[]>
+	private async readDirectory(folder: vscode.WorkspaceFolder, dirUri: vscode.Uri, insideHidden = false): Promise<ExplorerSharpItem[]>
 	{
-		const hidden = new Set(this.hiddenFolders);
+		const rules = this.hideRules(folder);
+		const showHidden = this.showHiddenItems;
 		let entries: [string, vscode.FileType][];
 
 		try
 		{
-			entries = await vscode.workspace.fs.readDirectory(dirUri);
+			[entries] = await Promise.all([
+				this.listings.read(dirUri),
+				rules.prepare(relativePathOf(folder, dirUri)),
+			]);
 		}
 		catch (e)
 		{
@@ -131,74 +1247,113 @@ export class ExplorerSharpProvider implements vscode.TreeDataProvider<ExplorerSh
 			return [];
 		}
 
-		entries = linq<[string, vscode.FileType]>(entries)
-			.orderBy(([name, type]) => type === vscode.FileType.File ? 1 : 0)
-			.thenBy(([name]) => name, (a, b) => a.localeCompare(b))
-			.toArray();
-
-		const items: ExplorerSharpItem[] = [];
+		const siblings = new Set(linq<[string, vscode.FileType]>(entries).select(([name]) => name));
 
-		for (const [name, type] of entries)
+		const items = await Promise.all(entries.map(async ([name, type]) =>
 		{
-			if (name.startsWith("."))
+			const fullUri = vscode.Uri.joinPath(dirUri, name);
+			const relativePath = relativePathOf(folder, fullUri);
+			const isDirectory = type === vscode.FileType.Directory;
+			if (!this.passesFilters(fullUri, isDirectory))
 			{
-				continue;
+				return undefined;
 			}
 
-			const fullUri = vscode.Uri.joinPath(dirUri, name);
-			const relativePath = vscode.workspace.asRelativePath(fullUri, false);
+			const reason = rules.hiddenReason(relativePath, isDirectory, siblings);
 
-			if (hidden.has(relativePath))
+			if (reason && !showHidden)
 			{
-				continue;
+				return undefined;
 			}
 
-			if (type === vscode.FileType.Directory)
+			if (reason || insideHidden)
 			{
-				const flatResult = await this.tryFlatten(fullUri, relativePath, hidden);
-				if (flatResult)
-				{
-					items.push(flatResult);
-				}
-				else
-				{
-					items.push(new ExplorerSharpItem({ label: name, uri: fullUri, relativePath, isDirectory: true }));
-				}
+				const ghost = new ExplorerSharpItem({ label: name, uri: fullUri, relativePath, isDirectory, workspaceFolder: folder });
+				ghost.markHidden(reason);
+				return ghost;
 			}
-			else
+
+			if (isDirectory)
 			{
-				items.push(new ExplorerSharpItem({ label: name, uri: fullUri, relativePath, isDirectory: false }));
+				const flatResult = await this.tryFlatten(folder, fullUri, relativePath, rules);
+				return flatResult ?? new ExplorerSharpItem({ label: name, uri: fullUri, relativePath, isDirectory: true, workspaceFolder: folder });
 			}
+
+			return new ExplorerSharpItem({ label: name, uri: fullUri, relativePath, isDirectory: false, workspaceFolder: folder });
+		}));
+
+		const shown = await this.nestFiles(folder, dirUri, items.filter((item): item is ExplorerSharpItem => item !== undefined));
+		return sortItems(shown, this.sortOrder(folder), this.sortDescending(folder));
+	}
+
+	/** Moves files matched by the nesting rules under their parent file. */
+	private async nestFiles(folder: vscode.WorkspaceFolder, dirUri: vscode.Uri, items: ExplorerSharpItem[]): Promise<ExplorerSharpItem[]>
+	{
+		const nester = this.fileNester(folder);
+		const files = new Map(items
+			.filter((item) => !item.isDirectory && item.chain.length === 0)
+			.map((item) => [path.posix.basename(item.diskUri.path), item]));
+
+		if (!nester || files.size < 2)
+		{
+			return items;
+		}
+
+		const nested = new Set<ExplorerSharpItem>();
+
+		for (const [parentName, childNames] of nester.nest([...files.keys()], path.posix.basename(dirUri.path)))
+		{
+			const children = childNames.map((name) => files.get(name)!);
+			children.forEach((child) => nested.add(child));
+			files.get(parentName)!.nest(await sortItems(children, this.sortOrder(folder), this.sortDescending(folder)));
 		}
 
-		return items;
+		return items.filter((item) => !nested.has(item));
 	}
 
-	private async tryFlatten(fullUri: vscode.Uri, relativePath: string, hidden: Set<string>): Promise<ExplorerSharpItem | undefined>
+	/**
+	 * @param depth the number of folders in the chain being built, this one included.
+	 */
+	private async tryFlatten(folder: vscode.WorkspaceFolder, fullUri: vscode.Uri, relativePath: string, rules: HideRules, depth = 1): Promise<ExplorerSharpItem | undefined>
 	{
+		const overrides = this.flattenRules(folder);
+		const mode = overrides.modeOf(relativePath);
+		if (mode === "never")
+		{
+			return undefined;
+		}
+
 		let entries: [string, vscode.FileType][];
 
 		try
 		{
-			entries = await vscode.workspace.fs.readDirectory(fullUri);
+			[entries] = await Promise.all([
+				this.listings.read(fullUri),
+				rules.prepare(relativePath),
+			]);
 		}
 		catch
 		{
 			return undefined;
 		}
 
-		entries = linq<[string, vscode.FileType]>(entries)
-			.where(([name]) =>
+		const siblings = new Set(linq<[string, vscode.FileType]>(entries).select(([name]) => name));
+		entries = entries.filter(([name, type]) => this.passesFilters(vscode.Uri.joinPath(fullUri, name), type === vscode.FileType.Directory));
+
+		const visible = linq<[string, vscode.FileType]>(entries)
+			.where(([name, type]) =>
 			{
-				if (name.startsWith("."))
-				{
-					return false;
-				}
-				const childRel = vscode.workspace.asRelativePath(vscode.Uri.joinPath(fullUri, name), false);
-				return !hidden.has(childRel);
+				const childRel = relativePathOf(folder, vscode.Uri.joinPath(fullUri, name));
+				return !rules.isHidden(childRel, type === vscode.FileType.Directory, siblings);
 			})
 			.toArray();
 
+		if (this.showHiddenItems && visible.length !== entries.length)
+		{
+			return undefined;
+		}
+		entries = visible;
+
 		const dirs = linq<[string, vscode.FileType]>(entries)
 			.where(([, type]) => type === vscode.FileType.Directory)
 			.toArray();
@@ -206,56 +1361,86 @@ export class ExplorerSharpProvider implements vscode.TreeDataProvider<ExplorerSh
 			.where(([, type]) => type !== vscode.FileType.Directory)
 			.toArray();
 
-		if (this.shouldFlattenSingleFile && files.length === 1 && dirs.length === 0)
+		// A file with its nested files counts as a single file, so `Foo.cs` with `Foo.Designer.cs` still flattens.
+		const nesting = this.fileNester(folder)?.nest(files.map(([name]) => name), path.posix.basename(fullUri.path));
+		const nestedNames = new Set([...nesting?.values() ?? []].flat());
+		const topFiles = files.filter(([name]) => !nestedNames.has(name));
+
+		// Path overrides win over rule files in or above the folder, which win over the flatten settings.
+		const flattenSingleFile = mode === "always"
+			|| (rules.flattenOverride(relativePath, "flattenSingleFileDirectories") ?? this.shouldFlattenSingleFile(folder));
+		const flattenSingleChild = mode === "always"
+			|| (rules.flattenOverride(relativePath, "flattenSingleChildDirectories") ?? this.shouldFlattenSingleChild(folder));
+
+		if (flattenSingleFile && topFiles.length === 1 && dirs.length === 0)
 		{
-			return this.flattenFile(fullUri, relativePath, files[0][0]);
+			const item = this.flattenFile(folder, fullUri, relativePath, topFiles[0][0]);
+			const children = (nesting?.get(topFiles[0][0]) ?? []).map((name) =>
+			{
+				const uri = vscode.Uri.joinPath(fullUri, name);
+				return new ExplorerSharpItem({ label: name, uri, relativePath: relativePathOf(folder, uri), isDirectory: false, workspaceFolder: folder });
+			});
+			item.nest(await sortItems(children, this.sortOrder(folder), this.sortDescending(folder)));
+			return item;
 		}
 
-		if (this.shouldFlattenSingleChild && dirs.length === 1 && files.length === 0)
+		// A folder that must keep its own node is not folded into its parent's chain either.
+		const childRelative = dirs.length === 1 ? relativePathOf(folder, vscode.Uri.joinPath(fullUri, dirs[0][0])) : "";
+		if (flattenSingleChild && dirs.length === 1 && files.length === 0
+			&& overrides.canExtend(depth) && overrides.modeOf(childRelative) !== "never")
 		{
-			return this.flattenChildDir(fullUri, relativePath, dirs[0][0], hidden);
+			return this.flattenChildDir(folder, fullUri, relativePath, dirs[0][0], rules, depth);
 		}
 
 		return undefined;
 	}
 
-	private flattenFile(parentUri: vscode.Uri, parentRelPath: string, fileName: string): ExplorerSharpItem
+	private flattenFile(folder: vscode.WorkspaceFolder, parentUri: vscode.Uri, parentRelPath: string, fileName: string): ExplorerSharpItem
 	{
 		const fileUri = vscode.Uri.joinPath(parentUri, fileName);
-		const fileRelative = vscode.workspace.asRelativePath(fileUri, false);
+		const fileRelative = relativePathOf(folder, fileUri);
 		const folderName = path.basename(parentRelPath);
 		const label = `${folderName}/${fileName}`;
 
-		const item = new ExplorerSharpItem({ label, uri: fileUri, relativePath: fileRelative, isDirectory: false });
+		const item = new ExplorerSharpItem({ label, uri: fileUri, relativePath: fileRelative, isDirectory: false, workspaceFolder: folder });
 		item.contextValue = "flatFolder";
 		item.folderPath = parentRelPath;
+		item.chain = [parentUri];
 		item.description = "";
 		return item;
 	}
 
-	private async flattenChildDir(parentUri: vscode.Uri, parentRelPath: string, childName: string, hidden: Set<string>): Promise<ExplorerSharpItem>
+	private async flattenChildDir(folder: vscode.WorkspaceFolder, parentUri: vscode.Uri, parentRelPath: string, childName: string, rules: HideRules, depth: number): Promise<ExplorerSharpItem>
 	{
 		const childUri = vscode.Uri.joinPath(parentUri, childName);
-		const childRelative = vscode.workspace.asRelativePath(childUri, false);
+		const childRelative = relativePathOf(folder, childUri);
 		const folderName = path.basename(parentRelPath);
-		const deeper = await this.tryFlatten(childUri, childRelative, hidden);
+		const deeper = await this.tryFlatten(folder, childUri, childRelative, rules, depth + 1);
 
 		if (deeper)
 		{
 			const label = `${folderName}/${deeper.label}`;
 			const compacted = new ExplorerSharpItem({
 				label,
-				uri: deeper.resourceUri!,
+				uri: deeper.diskUri,
 				relativePath: deeper.relativePath,
 				isDirectory: deeper.isDirectory,
+				workspaceFolder: folder,
 				diskUri: deeper.diskUri,
 			});
 			compacted.contextValue = deeper.contextValue;
 			compacted.folderPath = deeper.folderPath;
+			compacted.chain = [parentUri, ...deeper.chain];
+			if (deeper.nestedFiles.length > 0)
+			{
+				compacted.nest(deeper.nestedFiles);
+			}
 			return compacted;
 		}
 
 		const label = `${folderName}/${childName}`;
-		return new ExplorerSharpItem({ label, uri: childUri, relativePath: childRelative, isDirectory: true, diskUri: childUri });
+		const item = new ExplorerSharpItem({ label, uri: childUri, relativePath: childRelative, isDirectory: true, workspaceFolder: folder, diskUri: childUri });
+		item.chain = [parentUri, childUri];
+		return item;
 	}
 }
@@ -1,33 +1,152 @@
 import * as vscode from "vscode";
 import { ExplorerSharpProvider } from "./explorerSharpProvider";
+import { HiddenItemDecorationProvider } from "./hiddenItemDecorationProvider";
+import { ProfileManager } from "./profileManager";
+import { RefreshScheduler } from "./refreshScheduler";
+import { FileOperations } from "./fileOperations";
+import { ExplorerSharpDragAndDropController } from "./dragAndDropController";
+import { RevealController } from "./revealController";
+import { FilterController } from "./filterController";
+import { VirtualFolderCommands } from "./virtualFolders";
+import { HiddenEntries } from "./hiddenEntries";
+import { ItemActions } from "./itemActions";
+import { GitStatus } from "./gitStatus";
+import { GitDecorationProvider } from "./gitDecorationProvider";
+import { Problems } from "./problems";
+import { ProblemDecorationProvider } from "./problemDecorationProvider";
 
 export function activate(context: vscode.ExtensionContext)
 {
-	const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
-	if (!workspaceRoot)
-	{
-		return;
-	}
-
-	const provider = new ExplorerSharpProvider(workspaceRoot, context);
+	const gitStatus = new GitStatus();
+	const gitDecorations = new GitDecorationProvider(gitStatus);
+	const problems = new Problems();
+	const problemDecorations = new ProblemDecorationProvider(problems);
+	const provider = new ExplorerSharpProvider(context, gitStatus, problems);
+	const profiles = new ProfileManager(provider);
+	const fileOperations: FileOperations = new FileOperations(provider, () => treeView.selection);
+	const treeView = vscode.window.createTreeView("explorerSharp", {
+		treeDataProvider: provider,
+		showCollapseAll: true,
+		canSelectMany: true,
+		dragAndDropController: new ExplorerSharpDragAndDropController(fileOperations, provider.pins),
+	});
+	const reveal = new RevealController(provider, treeView);
+	const filters = new FilterController(provider, treeView);
+	const virtualFolders = new VirtualFolderCommands(provider, () => treeView.selection);
+	const hiddenEntries = new HiddenEntries(provider);
+	const itemActions = new ItemActions(() => treeView.selection);
 
 	context.subscriptions.push(
-		vscode.window.createTreeView("explorerSharp", { treeDataProvider: provider, showCollapseAll: true }),
+		treeView,
+		reveal,
+		filters,
+		// A filtered tree is expanded for the matches; that should not overwrite what the user expanded.
+		treeView.onDidExpandElement((e) =>
+		{
+			if (!provider.filter)
+			{
+				provider.expansion.expand(e.element);
+			}
+		}),
+		treeView.onDidCollapseElement((e) =>
+		{
+			if (!provider.filter)
+			{
+				provider.expansion.collapse(e.element);
+			}
+		}),
 		vscode.commands.registerCommand("explorerSharp.hideFolder", (item) => provider.hideFolderFromItem(item)),
 		vscode.commands.registerCommand("explorerSharp.unhideFolder", (item) => provider.unhideFolderFromItem(item)),
+		vscode.commands.registerCommand("explorerSharp.hideFile", (item) => provider.hideFileFromItem(item)),
+		vscode.commands.registerCommand("explorerSharp.unhideFile", (item) => provider.unhideFileFromItem(item)),
 		vscode.commands.registerCommand("explorerSharp.unhideAll", () => provider.unhideAllFolders()),
-		vscode.commands.registerCommand("explorerSharp.refresh", () => provider.refresh()),
+		vscode.commands.registerCommand("explorerSharp.neverFlatten", (item) => provider.neverFlattenFromItem(item)),
+		vscode.commands.registerCommand("explorerSharp.alwaysCompact", (item) => provider.alwaysCompactFromItem(item)),
+		vscode.commands.registerCommand("explorerSharp.restoreFlattening", (item) => provider.restoreFlatteningFromItem(item)),
+		vscode.commands.registerCommand("explorerSharp.showEffectiveConfig", () => provider.showEffectiveConfig()),
+		vscode.commands.registerCommand("explorerSharp.cleanUpHiddenList", () => hiddenEntries.cleanUp()),
+		vscode.commands.registerCommand("explorerSharp.showDotEntries", () => provider.toggleDotEntries()),
+		vscode.commands.registerCommand("explorerSharp.hideDotEntries", () => provider.toggleDotEntries()),
+		vscode.commands.registerCommand("explorerSharp.showHiddenItems", () => provider.setShowHiddenItems(true)),
+		vscode.commands.registerCommand("explorerSharp.hideHiddenItems", () => provider.setShowHiddenItems(false)),
+		vscode.commands.registerCommand("explorerSharp.showOnlyChangedFiles", () => provider.setShowOnlyChangedFiles(true)),
+		vscode.commands.registerCommand("explorerSharp.showAllFiles", () => provider.setShowOnlyChangedFiles(false)),
+		vscode.commands.registerCommand("explorerSharp.sortBy", () => provider.pickSortOrder()),
+		vscode.commands.registerCommand("explorerSharp.importFileNesting", () => provider.importFileNesting()),
+		vscode.commands.registerCommand("explorerSharp.switchProfile", () => profiles.switchProfile()),
+		vscode.commands.registerCommand("explorerSharp.saveProfile", () => profiles.saveProfile()),
+		vscode.commands.registerCommand("explorerSharp.newFile", (item) => fileOperations.newFile(item)),
+		vscode.commands.registerCommand("explorerSharp.newFolder", (item) => fileOperations.newFolder(item)),
+		vscode.commands.registerCommand("explorerSharp.rename", (item) => fileOperations.rename(item)),
+		vscode.commands.registerCommand("explorerSharp.delete", (item, selected) => fileOperations.delete(item, selected)),
+		vscode.commands.registerCommand("explorerSharp.duplicate", (item, selected) => fileOperations.duplicate(item, selected)),
+		vscode.commands.registerCommand("explorerSharp.copyPath", (item) => itemActions.copyPath(item)),
+		vscode.commands.registerCommand("explorerSharp.copyRelativePath", (item) => itemActions.copyRelativePath(item)),
+		vscode.commands.registerCommand("explorerSharp.revealInOS", (item) => itemActions.revealInOS(item)),
+		vscode.commands.registerCommand("explorerSharp.revealInExplorer", (item) => itemActions.revealInExplorer(item)),
+		vscode.commands.registerCommand("explorerSharp.openInTerminal", (item) => itemActions.openInTerminal(item)),
+		vscode.commands.registerCommand("explorerSharp.reveal", (uri) => reveal.reveal(uri)),
+		vscode.commands.registerCommand("explorerSharp.pin", (item) => provider.pinItem(item)),
+		vscode.commands.registerCommand("explorerSharp.unpin", (item) => provider.unpinItem(item)),
+		vscode.commands.registerCommand("explorerSharp.createVirtualFolder", (item, selected) => virtualFolders.create(item, selected)),
+		vscode.commands.registerCommand("explorerSharp.addToVirtualFolder", (item, selected) => virtualFolders.add(item, selected)),
+		vscode.commands.registerCommand("explorerSharp.nextProblem", () => reveal.nextProblem()),
+		vscode.commands.registerCommand("explorerSharp.filter", () => filters.open()),
+		vscode.commands.registerCommand("explorerSharp.clearFilter", () => filters.clear()),
+		vscode.commands.registerCommand("explorerSharp.refresh", (item) =>
+		{
+			provider.refresh(item);
+			if (!item)
+			{
+				filters.rerun();
+			}
+		}),
 		vscode.commands.registerCommand("explorerSharp.openFile", (uri) => vscode.window.showTextDocument(uri)),
+		vscode.window.registerFileDecorationProvider(new HiddenItemDecorationProvider()),
+		vscode.window.registerFileDecorationProvider(gitDecorations),
+		vscode.window.registerFileDecorationProvider(problemDecorations),
+		gitDecorations,
+		gitStatus,
+		problemDecorations,
+		problems,
+		profiles,
 	);
 
-	const fileWatcher = vscode.workspace.createFileSystemWatcher("**/*");
-	fileWatcher.onDidCreate(() => provider.refresh());
-	fileWatcher.onDidDelete(() => provider.refresh());
-	fileWatcher.onDidChange(() => provider.refresh());
+	const updateContext = () =>
+	{
+		vscode.commands.executeCommand("setContext", "explorerSharp.dotEntriesVisible", provider.dotEntriesVisible);
+		vscode.commands.executeCommand("setContext", "explorerSharp.showingHiddenItems", provider.showHiddenItems);
+		vscode.commands.executeCommand("setContext", "explorerSharp.showingOnlyChangedFiles", provider.showOnlyChangedFiles);
+	};
+	updateContext();
 
+	const fileWatcher = vscode.workspace.createFileSystemWatcher("**/*");
+	const scheduler = new RefreshScheduler(provider);
 
+	context.subscriptions.push(
+		fileWatcher,
+		scheduler,
+		scheduler.watch(fileWatcher),
+		vscode.workspace.onDidChangeConfiguration((e) =>
+		{
+			if (e.affectsConfiguration("explorerSharp.gitDecorations"))
+			{
+				gitDecorations.refresh();
+			}
+			updateContext();
+			profiles.update();
+			provider.refresh();
+		}),
+		vscode.workspace.onDidChangeWorkspaceFolders(() => provider.workspaceFoldersChanged()),
+		vscode.workspace.onDidRenameFiles((e) =>
+		{
+			provider.pins.renamed(e.files);
+			hiddenEntries.renamed(e.files);
+		}),
+		vscode.workspace.onDidDeleteFiles((e) => hiddenEntries.deleted(e.files)),
+	);
 
-	context.subscriptions.push(fileWatcher,vscode.workspace.onDidChangeConfiguration(() => provider.refresh()));
+	gitStatus.initialize();
 }
 
 
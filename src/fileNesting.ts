@@ -0,0 +1,115 @@
+import * as path from "path";
+import { compileGlobs, GlobMatcher } from "./glob";
+
+
+/** Same shape as `explorer.fileNesting.patterns`: parent file pattern → comma separated child patterns. */
+export type NestingPatterns = Record<string, string>;
+
+interface NestingRule
+{
+	parent: RegExp;
+	children: string[];
+}
+
+function escapeRegExp(text: string): string
+{
+	return text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Groups related sibling files under a parent file, following the rules of
+ * VS Code's `explorer.fileNesting.patterns`. The `*` in a parent pattern is
+ * the capture, and child patterns may use `${capture}`, `${basename}`,
+ * `${extname}` and `${dirname}` as well as globs.
+ *
+ * Nesting is one level deep: a file that nests under another file does not
+ * get children of its own.
+ */
+export class FileNester
+{
+	private readonly rules: NestingRule[] = [];
+
+	constructor(patterns: NestingPatterns)
+	{
+		for (const [parent, children] of Object.entries(patterns))
+		{
+			// Like the native explorer, a parent pattern has at most one `*`.
+			if (!parent.trim() || typeof children !== "string" || parent.split("*").length > 2)
+			{
+				continue;
+			}
+
+			this.rules.push({
+				parent: new RegExp(`^${escapeRegExp(parent.trim()).replace("*", "(.*)")}$`),
+				children: children.split(",").map((child) => child.trim()).filter((child) => child.length > 0),
+			});
+		}
+	}
+
+	get isEmpty(): boolean
+	{
+		return this.rules.length === 0;
+	}
+
+	/** Child file names per parent file name among the files `names` of a directory named `dirname`. */
+	nest(names: readonly string[], dirname: string): Map<string, string[]>
+	{
+		const parentsOf = new Map<string, string[]>();
+
+		for (const parent of names)
+		{
+			const matches = this.childMatcher(parent, dirname);
+			if (!matches)
+			{
+				continue;
+			}
+
+			for (const child of names)
+			{
+				if (child !== parent && matches(child))
+				{
+					parentsOf.set(child, [...parentsOf.get(child) ?? [], parent]);
+				}
+			}
+		}
+
+		const groups = new Map<string, string[]>();
+
+		for (const [child, parents] of parentsOf)
+		{
+			const parent = parents.find((candidate) => !parentsOf.has(candidate));
+			if (parent)
+			{
+				groups.set(parent, [...groups.get(parent) ?? [], child]);
+			}
+		}
+
+		return groups;
+	}
+
+	private childMatcher(name: string, dirname: string): GlobMatcher | undefined
+	{
+		const extname = path.posix.extname(name);
+		const patterns: string[] = [];
+
+		for (const rule of this.rules)
+		{
+			const match = rule.parent.exec(name);
+			if (!match)
+			{
+				continue;
+			}
+
+			for (const child of rule.children)
+			{
+				patterns.push(child
+					.replace(/\$\{capture\}/g, match[1] ?? "")
+					.replace(/\$\{basename\}/g, name.slice(0, name.length - extname.length))
+					.replace(/\$\{extname\}/g, extname.slice(1))
+					.replace(/\$\{dirname\}/g, dirname));
+			}
+		}
+
+		return patterns.length > 0 ? compileGlobs(patterns) : undefined;
+	}
+}
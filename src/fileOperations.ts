@@ -0,0 +1,255 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ExplorerSharpItem } from "./ExplorerSharpItem";
+import { ExplorerSharpProvider } from "./explorerSharpProvider";
+import { pickSegment, Segment } from "./segments";
+import { exists, isSameOrInside, parentOf, relativePathOf } from "./paths";
+
+
+/**
+ * New, rename, delete and duplicate for items in the ExplorerSharp view. Edits go
+ * through `WorkspaceEdit` so they can be undone like edits in the native explorer.
+ */
+export class FileOperations
+{
+	constructor(private readonly provider: ExplorerSharpProvider, private readonly selection: () => readonly ExplorerSharpItem[])
+	{
+	}
+
+	async newFile(item?: ExplorerSharpItem): Promise<void>
+	{
+		const dir = await this.targetDirectory(item);
+		const name = dir && await this.askName(dir, "Name of the new file");
+		if (!dir || !name)
+		{
+			return;
+		}
+
+		const uri = vscode.Uri.joinPath(dir, name);
+		const edit = new vscode.WorkspaceEdit();
+		edit.createFile(uri, { ignoreIfExists: false });
+
+		if (await vscode.workspace.applyEdit(edit))
+		{
+			await vscode.window.showTextDocument(uri);
+		}
+	}
+
+	async newFolder(item?: ExplorerSharpItem): Promise<void>
+	{
+		const dir = await this.targetDirectory(item);
+		const name = dir && await this.askName(dir, "Name of the new folder");
+		if (!dir || !name)
+		{
+			return;
+		}
+
+		// WorkspaceEdit can only create files, so empty folders are created directly.
+		await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(dir, name));
+	}
+
+	async rename(item?: ExplorerSharpItem): Promise<void>
+	{
+		const segment = await this.pickEditableSegment(item, "Select what to rename");
+		if (!segment)
+		{
+			return;
+		}
+
+		const dir = parentOf(segment.uri);
+		const oldName = path.posix.basename(segment.uri.path);
+		const newName = await this.askName(dir, `Rename ${segment.relativePath}`, oldName);
+		if (!newName || newName === oldName)
+		{
+			return;
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		edit.renameFile(segment.uri, vscode.Uri.joinPath(dir, newName));
+		await vscode.workspace.applyEdit(edit);
+	}
+
+	async delete(item?: ExplorerSharpItem, selected?: readonly ExplorerSharpItem[]): Promise<void>
+	{
+		const segments = await this.pickEditableSegments(item, selected, "Select what to delete");
+		if (segments.length === 0)
+		{
+			return;
+		}
+
+		const remove = "Move to Trash";
+		const hasContents = segments.some((segment) => segment.isDirectory);
+		const message = segments.length === 1
+			? `Are you sure you want to delete '${path.posix.basename(segments[0].relativePath)}'${hasContents ? " and its contents" : ""}?`
+			: `Are you sure you want to delete the following ${segments.length} files and folders${hasContents ? " and their contents" : ""}?`;
+		const names = segments.length === 1 ? "" : `${segments.map((segment) => segment.relativePath).join("\n")}\n\n`;
+		const answer = await vscode.window.showWarningMessage(
+			message,
+			{ modal: true, detail: `${names}You can undo this action or restore it from the Trash.` },
+			remove,
+		);
+		if (answer !== remove)
+		{
+			return;
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		for (const segment of segments)
+		{
+			edit.deleteFile(segment.uri, { recursive: true, ignoreIfNotExists: true });
+		}
+		await vscode.workspace.applyEdit(edit);
+	}
+
+	async duplicate(item?: ExplorerSharpItem, selected?: readonly ExplorerSharpItem[]): Promise<void>
+	{
+		const segments = await this.pickEditableSegments(item, selected, "Select what to duplicate");
+		const edit = new vscode.WorkspaceEdit();
+
+		for (const segment of segments)
+		{
+			const target = await this.availableName(parentOf(segment.uri), path.posix.basename(segment.uri.path));
+			await this.addCopy(segment.uri, target, segment.isDirectory, edit);
+		}
+
+		if (segments.length > 0)
+		{
+			await vscode.workspace.applyEdit(edit);
+		}
+	}
+
+	private resolve(item?: ExplorerSharpItem): ExplorerSharpItem | undefined
+	{
+		return item instanceof ExplorerSharpItem ? item : this.selection()[0];
+	}
+
+	private async targetDirectory(item?: ExplorerSharpItem): Promise<vscode.Uri | undefined>
+	{
+		const element = this.resolve(item);
+
+		if (!element)
+		{
+			const folders = this.provider.workspaceFolders;
+			if (folders.length <= 1)
+			{
+				return folders[0]?.uri;
+			}
+			return (await vscode.window.showWorkspaceFolderPick({ placeHolder: "Select the workspace folder to create the entry in" }))?.uri;
+		}
+
+		if (element.chain.length === 0)
+		{
+			return parentOf(element.diskUri);
+		}
+
+		return (await pickSegment(element, "Select the folder to create the entry in", (segment) => segment.isDirectory))?.uri;
+	}
+
+	private async pickEditableSegment(item: ExplorerSharpItem | undefined, placeHolder: string): Promise<Segment | undefined>
+	{
+		const element = this.resolve(item);
+		if (!element)
+		{
+			return undefined;
+		}
+
+		const root = element.workspaceFolder.uri.toString();
+		return pickSegment(element, placeHolder, (segment) => segment.uri.toString() !== root);
+	}
+
+	/**
+	 * The paths delete and duplicate apply to. A single item lets the user pick
+	 * a segment; with several items selected, each one stands for the entry it
+	 * shows in its parent folder, as when dragging, and entries inside another
+	 * selected entry are left out.
+	 */
+	private async pickEditableSegments(item: ExplorerSharpItem | undefined, selected: readonly ExplorerSharpItem[] | undefined, placeHolder: string): Promise<Segment[]>
+	{
+		let items = selected && selected.length > 0 ? selected : this.selection();
+		if (item instanceof ExplorerSharpItem && !items.includes(item))
+		{
+			items = [item];
+		}
+
+		items = items.filter((element) => element.relativePath && element.contextValue !== "pinnedMissing");
+		if (items.length <= 1)
+		{
+			const segment = items.length > 0 ? await this.pickEditableSegment(items[0], placeHolder) : undefined;
+			return segment ? [segment] : [];
+		}
+
+		const segments = new Map<string, Segment>();
+		for (const element of items)
+		{
+			const uri = element.chain[0] ?? element.diskUri;
+			segments.set(uri.toString(), { uri, relativePath: relativePathOf(element.workspaceFolder, uri), isDirectory: element.chain.length > 0 });
+		}
+
+		const keys = [...segments.keys()];
+		return [...segments.values()].filter((segment) => !keys.some((other) => other !== segment.uri.toString() && isSameOrInside(segment.uri.toString(), other)));
+	}
+
+	private askName(dir: vscode.Uri, prompt: string, value?: string): Thenable<string | undefined>
+	{
+		const extension = value ? path.posix.extname(value) : "";
+
+		return vscode.window.showInputBox({
+			prompt,
+			value,
+			valueSelection: value ? [0, value.length - extension.length] : undefined,
+			validateInput: async (input) =>
+			{
+				const name = input.trim();
+				if (!name)
+				{
+					return "A file or folder name must be provided.";
+				}
+				if (name !== value && await exists(vscode.Uri.joinPath(dir, name)))
+				{
+					return `A file or folder **${name}** already exists at this location.`;
+				}
+				return undefined;
+			},
+		}).then((name) => name?.trim());
+	}
+
+	/** First of `name`, `name copy`, `name copy 2`, ... that does not exist yet in `dir`. */
+	async availableName(dir: vscode.Uri, name: string): Promise<vscode.Uri>
+	{
+		if (!await exists(vscode.Uri.joinPath(dir, name)))
+		{
+			return vscode.Uri.joinPath(dir, name);
+		}
+
+		const extension = path.posix.extname(name);
+		const stem = name.slice(0, name.length - extension.length) || name;
+		const suffix = stem === name ? "" : extension;
+
+		for (let i = 1; ; i++)
+		{
+			const candidate = vscode.Uri.joinPath(dir, `${stem} copy${i > 1 ? ` ${i}` : ""}${suffix}`);
+			if (!await exists(candidate))
+			{
+				return candidate;
+			}
+		}
+	}
+
+	/** Adds the creation of a copy of `source` at `target` to `edit`. */
+	async addCopy(source: vscode.Uri, target: vscode.Uri, isDirectory: boolean, edit: vscode.WorkspaceEdit, overwrite = false): Promise<void>
+	{
+		if (!isDirectory)
+		{
+			edit.createFile(target, { contents: await vscode.workspace.fs.readFile(source), overwrite });
+			return;
+		}
+
+		// Folders are created up front because WorkspaceEdit has no folder creation; the files are undoable.
+		await vscode.workspace.fs.createDirectory(target);
+
+		for (const [name, type] of await vscode.workspace.fs.readDirectory(source))
+		{
+			await this.addCopy(vscode.Uri.joinPath(source, name), vscode.Uri.joinPath(target, name), type === vscode.FileType.Directory, edit, overwrite);
+		}
+	}
+}
@@ -0,0 +1,127 @@
+import * as vscode from "vscode";
+import { ExplorerSharpItem } from "./ExplorerSharpItem";
+import { ExplorerSharpProvider } from "./explorerSharpProvider";
+import { FilterResult, PathFilter } from "./pathFilter";
+
+
+const TYPING_DELAY = 250;
+
+/**
+ * The filter box of the view. Each change starts a background walk of the
+ * workspace, cancelling the previous one, and the tree is pruned to the
+ * matches once the walk is done. The active filter is shown in the view
+ * description, with a Clear Filter button in the view toolbar.
+ */
+export class FilterController implements vscode.Disposable
+{
+	private search: vscode.CancellationTokenSource | undefined;
+	private pending: ReturnType<typeof setTimeout> | undefined;
+
+	constructor(private readonly provider: ExplorerSharpProvider, private readonly treeView: vscode.TreeView<ExplorerSharpItem>)
+	{
+	}
+
+	private get text(): string
+	{
+		return this.provider.filter?.filter.text ?? "";
+	}
+
+	/** Opens the filter box. The tree follows the typed text; Escape restores the previous filter. */
+	open(): void
+	{
+		const previous = this.text;
+		const input = vscode.window.createInputBox();
+		let accepted = false;
+
+		input.title = "Filter ExplorerSharp";
+		input.placeholder = "Fuzzy text or glob, e.g. billhandler or *.Designer.cs";
+		input.value = previous;
+
+		input.onDidChangeValue((value) =>
+		{
+			this.cancel();
+			this.pending = setTimeout(() => this.apply(value), TYPING_DELAY);
+		});
+		input.onDidAccept(() =>
+		{
+			accepted = true;
+			this.apply(input.value);
+			input.hide();
+		});
+		input.onDidHide(() =>
+		{
+			if (!accepted)
+			{
+				this.cancel();
+				if (this.text !== previous)
+				{
+					this.apply(previous);
+				}
+			}
+			input.dispose();
+		});
+
+		input.show();
+	}
+
+	clear(): Promise<void>
+	{
+		return this.apply("");
+	}
+
+	/** Walks the workspace again for the current filter, picking up files created since. */
+	async rerun(): Promise<void>
+	{
+		if (this.text)
+		{
+			await this.apply(this.text);
+		}
+	}
+
+	async apply(text: string): Promise<void>
+	{
+		this.cancel();
+
+		if (!text.trim())
+		{
+			this.provider.setFilter(undefined);
+			this.update(undefined);
+			return;
+		}
+
+		const search = this.search = new vscode.CancellationTokenSource();
+		const result = await vscode.window.withProgress(
+			{ location: { viewId: "explorerSharp" } },
+			() => this.provider.findMatches(new PathFilter(text), search.token),
+		);
+
+		if (!result || search.token.isCancellationRequested)
+		{
+			return;
+		}
+
+		this.provider.setFilter(result);
+		this.update(result);
+	}
+
+	private cancel(): void
+	{
+		clearTimeout(this.pending);
+		this.pending = undefined;
+		this.search?.cancel();
+		this.search?.dispose();
+		this.search = undefined;
+	}
+
+	private update(result: FilterResult | undefined): void
+	{
+		this.treeView.description = result ? `Filter: ${result.filter.text}` : undefined;
+		this.treeView.message = result?.isEmpty ? `No files match '${result.filter.text}'.` : undefined;
+		vscode.commands.executeCommand("setContext", "explorerSharp.filtering", result !== undefined);
+	}
+
+	dispose(): void
+	{
+		this.cancel();
+	}
+}
@@ -0,0 +1,42 @@
+import { compileGlobs, GlobMatcher } from "./glob";
+
+
+export type FlattenMode = "never" | "always";
+
+/**
+ * Per-folder flatten overrides of one workspace folder: folders matched by
+ * `explorerSharp.neverFlatten` always keep their own node, folders matched by
+ * `explorerSharp.alwaysCompact` flatten whatever the flatten settings say.
+ * Entries are paths or globs relative to the workspace folder.
+ */
+export class FlattenRules
+{
+	private readonly never: GlobMatcher;
+	private readonly always: GlobMatcher;
+
+	/**
+	 * @param maxDepth the most folders a compacted chain may hold, or 0 for no limit.
+	 */
+	constructor(neverFlatten: string[], alwaysCompact: string[], readonly maxDepth: number)
+	{
+		this.never = compileGlobs(neverFlatten);
+		this.always = compileGlobs(alwaysCompact);
+	}
+
+	/** The override for the folder at `relativePath`; "never" wins when both match. */
+	modeOf(relativePath: string): FlattenMode | undefined
+	{
+		if (this.never(relativePath))
+		{
+			return "never";
+		}
+
+		return this.always(relativePath) ? "always" : undefined;
+	}
+
+	/** Whether a chain already holding `depth` folders may take in one more. */
+	canExtend(depth: number): boolean
+	{
+		return this.maxDepth <= 0 || depth < this.maxDepth;
+	}
+}
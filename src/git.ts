@@ -0,0 +1,65 @@
+import * as vscode from "vscode";
+
+
+/**
+ * The subset of the built-in git extension API (`vscode.git`, API version 1)
+ * that ExplorerSharp uses. See extensions/git/src/api/git.d.ts in VS Code.
+ */
+export const enum Status
+{
+	INDEX_MODIFIED,
+	INDEX_ADDED,
+	INDEX_DELETED,
+	INDEX_RENAMED,
+	INDEX_COPIED,
+
+	MODIFIED,
+	DELETED,
+	UNTRACKED,
+	IGNORED,
+	INTENT_TO_ADD,
+	INTENT_TO_RENAME,
+	TYPE_CHANGED,
+
+	ADDED_BY_US,
+	ADDED_BY_THEM,
+	DELETED_BY_US,
+	DELETED_BY_THEM,
+	BOTH_ADDED,
+	BOTH_DELETED,
+	BOTH_MODIFIED,
+}
+
+export interface Change
+{
+	readonly uri: vscode.Uri;
+	readonly status: Status;
+}
+
+export interface RepositoryState
+{
+	readonly mergeChanges: Change[];
+	readonly indexChanges: Change[];
+	readonly workingTreeChanges: Change[];
+	readonly untrackedChanges?: Change[];
+	readonly onDidChange: vscode.Event<void>;
+}
+
+export interface Repository
+{
+	readonly rootUri: vscode.Uri;
+	readonly state: RepositoryState;
+}
+
+export interface API
+{
+	readonly repositories: Repository[];
+	readonly onDidOpenRepository: vscode.Event<Repository>;
+	readonly onDidCloseRepository: vscode.Event<Repository>;
+}
+
+export interface GitExtension
+{
+	readonly enabled: boolean;
+	getAPI(version: 1): API;
+}
@@ -0,0 +1,64 @@
+import * as vscode from "vscode";
+import { ChangeKind, GitStatus } from "./gitStatus";
+import { parseItemUri } from "./itemUri";
+
+
+const DECORATIONS: Record<ChangeKind, { badge: string; color: string; tooltip: string }> = {
+	modified: { badge: "M", color: "gitDecoration.modifiedResourceForeground", tooltip: "Modified" },
+	renamed: { badge: "R", color: "gitDecoration.renamedResourceForeground", tooltip: "Renamed" },
+	added: { badge: "A", color: "gitDecoration.addedResourceForeground", tooltip: "Added" },
+	untracked: { badge: "U", color: "gitDecoration.untrackedResourceForeground", tooltip: "Untracked" },
+	conflicted: { badge: "!", color: "gitDecoration.conflictingResourceForeground", tooltip: "Conflicts" },
+};
+
+/**
+ * Git badges and colors for ExplorerSharp items. Files get their own status;
+ * folders, compacted chains and flattened items also pick up the changes of
+ * everything below the outermost folder they stand for, hidden entries included.
+ */
+export class GitDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable
+{
+	private readonly _onDidChangeFileDecorations = new vscode.EventEmitter<undefined>();
+	readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
+	private readonly subscription: vscode.Disposable;
+
+	constructor(private readonly gitStatus: GitStatus)
+	{
+		this.subscription = gitStatus.onDidChange(() => this._onDidChangeFileDecorations.fire(undefined));
+	}
+
+	provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined
+	{
+		const info = parseItemUri(uri);
+		if (!info || !vscode.workspace.getConfiguration("explorerSharp").get<boolean>("gitDecorations", true))
+		{
+			return undefined;
+		}
+
+		const own = this.gitStatus.kindOf(info.diskUri);
+		if (own)
+		{
+			const decoration = DECORATIONS[own];
+			return new vscode.FileDecoration(decoration.badge, decoration.tooltip, new vscode.ThemeColor(decoration.color));
+		}
+
+		const contained = this.gitStatus.containedKind(info.scope);
+		if (contained)
+		{
+			return new vscode.FileDecoration(undefined, "Contains changes", new vscode.ThemeColor(DECORATIONS[contained].color));
+		}
+
+		return undefined;
+	}
+
+	refresh(): void
+	{
+		this._onDidChangeFileDecorations.fire(undefined);
+	}
+
+	dispose(): void
+	{
+		this.subscription.dispose();
+		this._onDidChangeFileDecorations.dispose();
+	}
+}
@@ -0,0 +1,170 @@
+import * as vscode from "vscode";
+import { API, Change, GitExtension, Repository, Status } from "./git";
+
+
+export type ChangeKind = "modified" | "renamed" | "added" | "untracked" | "conflicted";
+
+/** Ordered from least to most important; folders show the most important change they contain. */
+const KIND_PRIORITY: ChangeKind[] = ["modified", "renamed", "added", "untracked", "conflicted"];
+
+function kindOf(status: Status): ChangeKind | undefined
+{
+	switch (status)
+	{
+		case Status.INDEX_MODIFIED:
+		case Status.MODIFIED:
+		case Status.TYPE_CHANGED:
+			return "modified";
+		case Status.INDEX_RENAMED:
+		case Status.INDEX_COPIED:
+		case Status.INTENT_TO_RENAME:
+			return "renamed";
+		case Status.INDEX_ADDED:
+		case Status.INTENT_TO_ADD:
+			return "added";
+		case Status.UNTRACKED:
+			return "untracked";
+		case Status.ADDED_BY_US:
+		case Status.ADDED_BY_THEM:
+		case Status.DELETED_BY_US:
+		case Status.DELETED_BY_THEM:
+		case Status.BOTH_ADDED:
+		case Status.BOTH_DELETED:
+		case Status.BOTH_MODIFIED:
+			return "conflicted";
+		default:
+			return undefined;
+	}
+}
+
+function moreImportant(a: ChangeKind | undefined, b: ChangeKind): ChangeKind
+{
+	return a && KIND_PRIORITY.indexOf(a) > KIND_PRIORITY.indexOf(b) ? a : b;
+}
+
+/**
+ * Working tree status of every repository known to the built-in git extension,
+ * indexed by file URI.
+ */
+export class GitStatus implements vscode.Disposable
+{
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+	readonly onDidChange = this._onDidChange.event;
+
+	private api: API | undefined;
+	private changes = new Map<string, ChangeKind>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private readonly repositoryListeners = new Map<Repository, vscode.Disposable>();
+
+	async initialize(): Promise<void>
+	{
+		const extension = vscode.extensions.getExtension<GitExtension>("vscode.git");
+		if (!extension)
+		{
+			return;
+		}
+
+		try
+		{
+			const git = extension.isActive ? extension.exports : await extension.activate();
+			if (!git.enabled)
+			{
+				return;
+			}
+			this.api = git.getAPI(1);
+		}
+		catch (e)
+		{
+			console.error("ExplorerSharp: Failed to load the git extension", e);
+			return;
+		}
+
+		for (const repository of this.api.repositories)
+		{
+			this.watch(repository);
+		}
+
+		this.disposables.push(
+			this.api.onDidOpenRepository((repository) => this.watch(repository)),
+			this.api.onDidCloseRepository((repository) => this.unwatch(repository)),
+		);
+		this.rebuild();
+	}
+
+	kindOf(uri: vscode.Uri): ChangeKind | undefined
+	{
+		return this.changes.get(uri.toString());
+	}
+
+	/** The most important change anywhere below `dirUri`. */
+	containedKind(dirUri: vscode.Uri): ChangeKind | undefined
+	{
+		const prefix = `${dirUri.toString()}/`;
+		let kind: ChangeKind | undefined;
+
+		for (const [uri, change] of this.changes)
+		{
+			if (uri.startsWith(prefix))
+			{
+				kind = moreImportant(kind, change);
+			}
+		}
+
+		return kind;
+	}
+
+	isChanged(uri: vscode.Uri, isDirectory: boolean): boolean
+	{
+		return (isDirectory ? this.containedKind(uri) : this.kindOf(uri)) !== undefined;
+	}
+
+	private watch(repository: Repository): void
+	{
+		if (!this.repositoryListeners.has(repository))
+		{
+			this.repositoryListeners.set(repository, repository.state.onDidChange(() => this.rebuild()));
+			this.rebuild();
+		}
+	}
+
+	private unwatch(repository: Repository): void
+	{
+		this.repositoryListeners.get(repository)?.dispose();
+		this.repositoryListeners.delete(repository);
+		this.rebuild();
+	}
+
+	private rebuild(): void
+	{
+		const changes = new Map<string, ChangeKind>();
+
+		for (const repository of this.repositoryListeners.keys())
+		{
+			const state = repository.state;
+			const all: Change[] = [
+				...state.indexChanges,
+				...state.workingTreeChanges,
+				...(state.untrackedChanges ?? []),
+				...state.mergeChanges,
+			];
+
+			for (const change of all)
+			{
+				const kind = kindOf(change.status);
+				if (kind)
+				{
+					const key = change.uri.toString();
+					changes.set(key, moreImportant(changes.get(key), kind));
+				}
+			}
+		}
+
+		this.changes = changes;
+		this._onDidChange.fire();
+	}
+
+	dispose(): void
+	{
+		vscode.Disposable.from(...this.disposables, ...this.repositoryListeners.values(), this._onDidChange).dispose();
+	}
+}
@@ -0,0 +1,161 @@
+/**
+ * Minimal glob support for hide rules, following the syntax of VS Code's
+ * `files.exclude`: `*`, `?`, `**`, `{a,b}` and `[abc]` / `[!abc]`.
+ * Patterns are matched against forward-slash paths relative to a workspace folder.
+ */
+export type GlobMatcher = (relativePath: string) => boolean;
+
+export function compileGlob(pattern: string): GlobMatcher
+{
+	const regex = new RegExp(`^${globToRegexSource(trimSlashes(pattern))}$`);
+	return (relativePath) => regex.test(relativePath);
+}
+
+export function compileGlobs(patterns: Iterable<string>): GlobMatcher
+{
+	const matchers: GlobMatcher[] = [];
+	for (const pattern of patterns)
+	{
+		if (pattern.trim())
+		{
+			matchers.push(compileGlob(pattern.trim()));
+		}
+	}
+	return (relativePath) => matchers.some((matches) => matches(relativePath));
+}
+
+export function isGlobPattern(text: string): boolean
+{
+	return /[*?{}[\]]/.test(text);
+}
+
+function trimSlashes(pattern: string): string
+{
+	return pattern.replace(/\\/g, "/").replace(/^\.?\/+/, "").replace(/\/+$/, "");
+}
+
+function globToRegexSource(pattern: string): string
+{
+	let source = "";
+	let i = 0;
+
+	while (i < pattern.length)
+	{
+		const char = pattern[i];
+
+		if (char === "*")
+		{
+			if (pattern[i + 1] === "*")
+			{
+				const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+				const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === "/";
+				if (atSegmentStart && atSegmentEnd)
+				{
+					if (i + 2 === pattern.length)
+					{
+						source += ".*";
+						i += 2;
+					}
+					else
+					{
+						source += "(?:.*/)?";
+						i += 3;
+					}
+					continue;
+				}
+				source += "[^/]*";
+				i += 2;
+				continue;
+			}
+			source += "[^/]*";
+		}
+		else if (char === "?")
+		{
+			source += "[^/]";
+		}
+		else if (char === "{")
+		{
+			const close = findClosingBrace(pattern, i);
+			if (close < 0)
+			{
+				source += "\\{";
+			}
+			else
+			{
+				const alternatives = splitAlternatives(pattern.slice(i + 1, close));
+				source += `(?:${alternatives.map(globToRegexSource).join("|")})`;
+				i = close;
+			}
+		}
+		else if (char === "[")
+		{
+			const close = pattern.indexOf("]", i + 2);
+			if (close < 0)
+			{
+				source += "\\[";
+			}
+			else
+			{
+				let body = pattern.slice(i + 1, close).replace(/\\/g, "\\\\");
+				if (body.startsWith("!"))
+				{
+					body = `^${body.slice(1)}`;
+				}
+				source += `[${body}]`;
+				i = close;
+			}
+		}
+		else
+		{
+			source += char.replace(/[.+^$()|\\/]/g, "\\$&");
+		}
+
+		i++;
+	}
+
+	return source;
+}
+
+function findClosingBrace(pattern: string, open: number): number
+{
+	let depth = 0;
+	for (let i = open; i < pattern.length; i++)
+	{
+		if (pattern[i] === "{")
+		{
+			depth++;
+		}
+		else if (pattern[i] === "}" && --depth === 0)
+		{
+			return i;
+		}
+	}
+	return -1;
+}
+
+function splitAlternatives(body: string): string[]
+{
+	const parts: string[] = [];
+	let depth = 0;
+	let start = 0;
+
+	for (let i = 0; i < body.length; i++)
+	{
+		if (body[i] === "{")
+		{
+			depth++;
+		}
+		else if (body[i] === "}")
+		{
+			depth--;
+		}
+		else if (body[i] === "," && depth === 0)
+		{
+			parts.push(body.slice(start, i));
+			start = i + 1;
+		}
+	}
+
+	parts.push(body.slice(start));
+	return parts;
+}
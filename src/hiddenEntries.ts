@@ -0,0 +1,174 @@
+import * as vscode from "vscode";
+import { ExplorerSharpProvider } from "./explorerSharpProvider";
+import { exists, relativePathOf } from "./paths";
+import { ProfileListKey } from "./settings";
+
+
+const PATH_LISTS: ProfileListKey[] = ["hiddenFolders", "hiddenFiles"];
+
+interface Move
+{
+	from: string;
+	/** Undefined when the entry was deleted or moved out of the workspace folder. */
+	to?: string;
+}
+
+/**
+ * Keeps `hiddenFolders` and `hiddenFiles` pointing at real paths: entries
+ * follow renames and moves, including entries nested under a renamed folder,
+ * and are dropped when their target is deleted. Patterns are left alone.
+ */
+export class HiddenEntries
+{
+	constructor(private readonly provider: ExplorerSharpProvider)
+	{
+	}
+
+	async renamed(files: readonly { oldUri: vscode.Uri; newUri: vscode.Uri }[]): Promise<void>
+	{
+		const moves = new Map<vscode.WorkspaceFolder, Move[]>();
+		const arrivals: { source: vscode.WorkspaceFolder; from: string; folder: vscode.WorkspaceFolder; to: string }[] = [];
+
+		for (const { oldUri, newUri } of files)
+		{
+			const folder = vscode.workspace.getWorkspaceFolder(oldUri);
+			if (!folder)
+			{
+				continue;
+			}
+
+			const target = vscode.workspace.getWorkspaceFolder(newUri);
+			const from = relativePathOf(folder, oldUri);
+			moves.set(folder, [...moves.get(folder) ?? [], { from, to: target === folder ? relativePathOf(folder, newUri) : undefined }]);
+
+			if (target && target !== folder)
+			{
+				arrivals.push({ source: folder, from, folder: target, to: relativePathOf(target, newUri) });
+			}
+		}
+
+		// Entries moved into another workspace folder go into that folder's lists, before they are dropped from the old one.
+		for (const { source, from, folder, to } of arrivals)
+		{
+			for (const key of PATH_LISTS)
+			{
+				for (const layer of this.provider.settings.layers)
+				{
+					const moved = this.provider.settings.listIn(source, key, layer)
+						.filter((entry) => entry === from || entry.startsWith(`${from}/`))
+						.map((entry) => to + entry.slice(from.length));
+					const current = this.provider.settings.listIn(folder, key, layer);
+					const added = moved.filter((entry) => !current.includes(entry));
+
+					if (added.length > 0)
+					{
+						await this.provider.settings.updateList(folder, key, layer, [...current, ...added]);
+					}
+				}
+			}
+		}
+
+		for (const [folder, folderMoves] of moves)
+		{
+			await this.apply(folder, folderMoves);
+		}
+	}
+
+	async deleted(files: readonly vscode.Uri[]): Promise<void>
+	{
+		const removals = new Map<vscode.WorkspaceFolder, Move[]>();
+
+		for (const uri of files)
+		{
+			const folder = vscode.workspace.getWorkspaceFolder(uri);
+			if (folder)
+			{
+				removals.set(folder, [...removals.get(folder) ?? [], { from: relativePathOf(folder, uri) }]);
+			}
+		}
+
+		for (const [folder, folderRemovals] of removals)
+		{
+			await this.apply(folder, folderRemovals);
+		}
+	}
+
+	/** Lists hidden paths that no longer exist on disk and removes the ones the user keeps selected. */
+	async cleanUp(): Promise<void>
+	{
+		const multiRoot = this.provider.workspaceFolders.length > 1;
+		const stale: (vscode.QuickPickItem & { folder: vscode.WorkspaceFolder; entry: string })[] = [];
+
+		for (const folder of this.provider.workspaceFolders)
+		{
+			for (const key of PATH_LISTS)
+			{
+				for (const entry of this.provider.settings.allEntries(folder, key))
+				{
+					if (!await exists(vscode.Uri.joinPath(folder.uri, entry)))
+					{
+						stale.push({
+							label: entry,
+							description: [key === "hiddenFolders" ? "folder" : "file", multiRoot ? folder.name : ""].filter((part) => part).join(" · "),
+							picked: true,
+							folder,
+							entry,
+						});
+					}
+				}
+			}
+		}
+
+		if (stale.length === 0)
+		{
+			vscode.window.showInformationMessage("ExplorerSharp: Every hidden path still exists.");
+			return;
+		}
+
+		const picked = await vscode.window.showQuickPick(stale, {
+			canPickMany: true,
+			placeHolder: `${stale.length} hidden ${stale.length === 1 ? "path no longer exists" : "paths no longer exist"}. Select the entries to remove.`,
+		});
+		if (!picked || picked.length === 0)
+		{
+			return;
+		}
+
+		for (const folder of new Set(picked.map((pick) => pick.folder)))
+		{
+			const entries = new Set(picked.filter((pick) => pick.folder === folder).map((pick) => pick.entry));
+			for (const key of PATH_LISTS)
+			{
+				await this.provider.settings.rewriteEntries(folder, key, (entry) => entries.has(entry) ? undefined : entry);
+			}
+		}
+	}
+
+	private async apply(folder: vscode.WorkspaceFolder, moves: Move[]): Promise<void>
+	{
+		const rewrite = (entry: string): string | undefined =>
+		{
+			for (const { from, to } of moves)
+			{
+				if (entry === from || entry.startsWith(`${from}/`))
+				{
+					return to === undefined ? undefined : to + entry.slice(from.length);
+				}
+			}
+			return entry;
+		};
+
+		const untouched: string[] = [];
+		for (const key of PATH_LISTS)
+		{
+			await this.provider.settings.rewriteEntries(folder, key, rewrite);
+			untouched.push(...this.provider.settings.userEntries(folder, key).filter((entry) => rewrite(entry) !== entry));
+		}
+
+		// User settings apply to every workspace, so they are only pointed out.
+		if (untouched.length > 0)
+		{
+			vscode.window.showInformationMessage(`ExplorerSharp: Hidden paths in your user settings were not updated: ${untouched.join(", ")}.`);
+		}
+	}
+}
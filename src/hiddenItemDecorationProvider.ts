@@ -0,0 +1,20 @@
+import * as vscode from "vscode";
+import { parseItemUri } from "./itemUri";
+
+
+export class HiddenItemDecorationProvider implements vscode.FileDecorationProvider
+{
+	provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined
+	{
+		if (!parseItemUri(uri)?.hidden)
+		{
+			return undefined;
+		}
+
+		return {
+			color: new vscode.ThemeColor("disabledForeground"),
+			tooltip: "Hidden",
+			propagate: false,
+		};
+	}
+}
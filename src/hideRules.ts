@@ -0,0 +1,348 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { compileGlob, compileGlobs, GlobMatcher } from "./glob";
+import { evaluateIgnoreRules, IGNORE_FILE_NAMES, IgnoreRule, parseIgnoreFile } from "./ignoreFile";
+import { DirectoryCache } from "./directoryCache";
+import { DirectoryRules, evaluateDirectoryRules, FlattenKey, parseRuleFile, RULE_FILE_NAME } from "./ruleFile";
+
+
+export type ExcludeSetting = Record<string, boolean | { when: string }>;
+
+export type DotEntryMode = "hide" | "show" | "allowList";
+
+export interface HideRuleSources
+{
+	hiddenPaths: string[];
+	hiddenPatterns: string[];
+	excludes: ExcludeSetting[];
+	useIgnoreFiles: boolean;
+	dotEntries: DotEntryMode;
+	dotEntryAllowList: string[];
+}
+
+export type HideReason =
+	| { kind: "dotEntry" }
+	| { kind: "path" }
+	| { kind: "pattern"; pattern: string }
+	| { kind: "exclude"; pattern: string }
+	| { kind: "ignoreFile" }
+	| { kind: "ruleFile"; pattern: string; file: string };
+
+interface CompiledPattern
+{
+	pattern: string;
+	matches: GlobMatcher;
+}
+
+interface HiddenPattern extends CompiledPattern
+{
+	/** Set for patterns ending in `/`, which only hide folders. */
+	directoryOnly: boolean;
+}
+
+interface ConditionalExclude extends CompiledPattern
+{
+	when: string;
+}
+
+/**
+ * The hide rules of one workspace folder, compiled once per refresh and shared
+ * by every directory read until the tree is refreshed again. This includes
+ * the `.explorersharp` rule files of the directories read so far.
+ */
+export class HideRules
+{
+	private readonly paths: Set<string>;
+	private readonly patterns: HiddenPattern[];
+	private readonly excludes: CompiledPattern[] = [];
+	private readonly allowedDotEntries: GlobMatcher;
+	private readonly conditionalExcludes: ConditionalExclude[] = [];
+	private readonly ignoreFiles = new Map<string, Promise<IgnoreRule[]>>();
+	private readonly loadedIgnoreFiles = new Map<string, IgnoreRule[]>();
+	private readonly ruleFiles = new Map<string, Promise<DirectoryRules | undefined>>();
+	private readonly loadedRuleFiles = new Map<string, DirectoryRules>();
+
+	constructor(private readonly folder: vscode.WorkspaceFolder, private readonly sources: HideRuleSources, private readonly listings: DirectoryCache)
+	{
+		for (const exclude of sources.excludes)
+		{
+			for (const [pattern, value] of Object.entries(exclude))
+			{
+				if (value === true)
+				{
+					this.excludes.push({ pattern, matches: compileGlob(pattern) });
+				}
+				else if (value && typeof value.when === "string")
+				{
+					this.conditionalExcludes.push({ pattern, matches: compileGlob(pattern), when: value.when });
+				}
+			}
+		}
+
+		this.allowedDotEntries = compileGlobs(sources.dotEntries === "allowList" ? sources.dotEntryAllowList : []);
+		this.paths = new Set(sources.hiddenPaths);
+		this.patterns = sources.hiddenPatterns
+			.filter((pattern) => pattern.trim())
+			.map((pattern) => ({ pattern, matches: compileGlob(pattern.trim()), directoryOnly: pattern.trim().endsWith("/") }));
+	}
+
+	/**
+	 * Loads the ignore and rule files of `relativeDir` and all of its ancestors
+	 * so that `isHidden` and `flattenOverride` can be evaluated synchronously
+	 * for its entries. Directories are listed through `listings`, by default
+	 * the shared listings of the view.
+	 */
+	async prepare(relativeDir: string, listings = this.listings): Promise<void>
+	{
+		const segments = relativeDir ? relativeDir.split("/") : [];
+		const dirs = [""];
+		for (let i = 1; i <= segments.length; i++)
+		{
+			dirs.push(segments.slice(0, i).join("/"));
+		}
+
+		await Promise.all([
+			...dirs.map((dir) => this.loadRuleFile(dir, listings)),
+			...this.sources.useIgnoreFiles ? dirs.map((dir) => this.loadIgnoreFiles(dir, listings)) : [],
+		]);
+	}
+
+	/**
+	 * The flatten setting `key` for `relativeDir` from the nearest rule file at
+	 * or above it, or undefined when no rule file sets it.
+	 */
+	flattenOverride(relativeDir: string, key: FlattenKey): boolean | undefined
+	{
+		const segments = relativeDir ? relativeDir.split("/") : [];
+
+		for (let depth = segments.length; depth >= 0; depth--)
+		{
+			const value = this.loadedRuleFiles.get(segments.slice(0, depth).join("/"))?.[key];
+			if (value !== undefined)
+			{
+				return value;
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * @param siblings names of the entries next to `relativePath`, used by
+	 * `files.exclude` rules with a `when` clause.
+	 */
+	isHidden(relativePath: string, isDirectory: boolean, siblings?: ReadonlySet<string>): boolean
+	{
+		return this.hiddenReason(relativePath, isDirectory, siblings) !== undefined;
+	}
+
+	/**
+	 * Same as `isHidden`, but tells which rule hides the entry so that it can be
+	 * undone from the tree.
+	 */
+	hiddenReason(relativePath: string, isDirectory: boolean, siblings?: ReadonlySet<string>): HideReason | undefined
+	{
+		// Rule files are owned by the people working in that directory, so they overrule everything else.
+		const verdict = this.ruleFileVerdict(relativePath);
+		if (verdict)
+		{
+			return verdict.hidden ? { kind: "ruleFile", pattern: verdict.pattern, file: verdict.file } : undefined;
+		}
+
+		if (this.isHiddenDotEntry(relativePath))
+		{
+			return { kind: "dotEntry" };
+		}
+
+		if (this.paths.has(relativePath))
+		{
+			return { kind: "path" };
+		}
+
+		const pattern = this.patterns.find((candidate) => (isDirectory || !candidate.directoryOnly) && candidate.matches(relativePath));
+		if (pattern)
+		{
+			return { kind: "pattern", pattern: pattern.pattern };
+		}
+
+		const exclude = this.excludes.find((candidate) => candidate.matches(relativePath))
+			?? (siblings && this.excludedBySibling(relativePath, siblings));
+		if (exclude)
+		{
+			return { kind: "exclude", pattern: exclude.pattern };
+		}
+
+		return this.isIgnored(relativePath, isDirectory) ? { kind: "ignoreFile" } : undefined;
+	}
+
+	private isHiddenDotEntry(relativePath: string): boolean
+	{
+		const name = path.posix.basename(relativePath);
+		if (!name.startsWith(".") || this.sources.dotEntries === "show")
+		{
+			return false;
+		}
+
+		return !this.allowedDotEntries(name) && !this.allowedDotEntries(relativePath);
+	}
+
+	private excludedBySibling(relativePath: string, siblings: ReadonlySet<string>): ConditionalExclude | undefined
+	{
+		const name = path.posix.basename(relativePath);
+		const basename = name.slice(0, name.length - path.posix.extname(name).length);
+
+		return this.conditionalExcludes.find((exclude) =>
+			exclude.matches(relativePath) && siblings.has(exclude.when.replace(/\$\(basename\)/g, basename)));
+	}
+
+	/** The verdict of the deepest rule file above `relativePath` with a matching pattern. */
+	private ruleFileVerdict(relativePath: string): { hidden: boolean; pattern: string; file: string } | undefined
+	{
+		const segments = relativePath.split("/");
+
+		for (let depth = segments.length - 1; depth >= 0; depth--)
+		{
+			const dir = segments.slice(0, depth).join("/");
+			const rules = this.loadedRuleFiles.get(dir);
+			const verdict = rules && evaluateDirectoryRules(rules, segments.slice(depth).join("/"));
+			if (verdict)
+			{
+				return { ...verdict, file: dir ? `${dir}/${RULE_FILE_NAME}` : RULE_FILE_NAME };
+			}
+		}
+
+		return undefined;
+	}
+
+	private isIgnored(relativePath: string, isDirectory: boolean): boolean
+	{
+		let ignored = false;
+		const segments = relativePath.split("/");
+
+		for (let depth = 0; depth < segments.length; depth++)
+		{
+			const rules = this.loadedIgnoreFiles.get(segments.slice(0, depth).join("/"));
+			if (!rules)
+			{
+				continue;
+			}
+
+			const verdict = evaluateIgnoreRules(rules, segments.slice(depth).join("/"), isDirectory);
+			if (verdict !== undefined)
+			{
+				ignored = verdict;
+			}
+		}
+
+		return ignored;
+	}
+
+	private loadIgnoreFiles(relativeDir: string, listings: DirectoryCache): Promise<IgnoreRule[]>
+	{
+		let pending = this.ignoreFiles.get(relativeDir);
+
+		if (!pending)
+		{
+			pending = this.readIgnoreFiles(relativeDir, listings).then((rules) =>
+			{
+				this.loadedIgnoreFiles.set(relativeDir, rules);
+				return rules;
+			});
+			this.ignoreFiles.set(relativeDir, pending);
+		}
+
+		return pending;
+	}
+
+	private loadRuleFile(relativeDir: string, listings: DirectoryCache): Promise<DirectoryRules | undefined>
+	{
+		let pending = this.ruleFiles.get(relativeDir);
+
+		if (!pending)
+		{
+			pending = this.readRuleFile(relativeDir, listings).then((rules) =>
+			{
+				if (rules)
+				{
+					this.loadedRuleFiles.set(relativeDir, rules);
+				}
+				return rules;
+			});
+			this.ruleFiles.set(relativeDir, pending);
+		}
+
+		return pending;
+	}
+
+	/** Names of the files in `relativeDir`, from `listings`. */
+	private async fileNamesIn(relativeDir: string, listings: DirectoryCache): Promise<Set<string>>
+	{
+		try
+		{
+			const entries = await listings.read(this.dirUriOf(relativeDir));
+			return new Set(entries.filter(([, type]) => (type & vscode.FileType.File) !== 0).map(([name]) => name));
+		}
+		catch
+		{
+			return new Set();
+		}
+	}
+
+	private dirUriOf(relativeDir: string): vscode.Uri
+	{
+		return relativeDir ? vscode.Uri.joinPath(this.folder.uri, relativeDir) : this.folder.uri;
+	}
+
+	private async readRuleFile(relativeDir: string, listings: DirectoryCache): Promise<DirectoryRules | undefined>
+	{
+		// Only files the listing shows are read, so directories without rules cost no extra reads.
+		if (!(await this.fileNamesIn(relativeDir, listings)).has(RULE_FILE_NAME))
+		{
+			return undefined;
+		}
+
+		const fileUri = vscode.Uri.joinPath(this.dirUriOf(relativeDir), RULE_FILE_NAME);
+		let content: Uint8Array;
+
+		try
+		{
+			content = await listings.readFile(fileUri);
+		}
+		catch
+		{
+			// Deleted since the directory was listed.
+			return undefined;
+		}
+
+		try
+		{
+			return parseRuleFile(Buffer.from(content).toString("utf8"));
+		}
+		catch (e)
+		{
+			console.error(`ExplorerSharp: Failed to parse ${fileUri.fsPath}`, e);
+			return undefined;
+		}
+	}
+
+	private async readIgnoreFiles(relativeDir: string, listings: DirectoryCache): Promise<IgnoreRule[]>
+	{
+		const names = await this.fileNamesIn(relativeDir, listings);
+		const rules: IgnoreRule[] = [];
+
+		for (const fileName of IGNORE_FILE_NAMES.filter((name) => names.has(name)))
+		{
+			try
+			{
+				const content = await listings.readFile(vscode.Uri.joinPath(this.dirUriOf(relativeDir), fileName));
+				rules.push(...parseIgnoreFile(Buffer.from(content).toString("utf8")));
+			}
+			catch
+			{
+				// Deleted since the directory was listed.
+			}
+		}
+
+		return rules;
+	}
+}
@@ -0,0 +1,77 @@
+import { compileGlob, GlobMatcher } from "./glob";
+
+
+export const IGNORE_FILE_NAMES = [".gitignore", ".ignore"];
+
+export interface IgnoreRule
+{
+	negated: boolean;
+	directoryOnly: boolean;
+	matches: GlobMatcher;
+}
+
+/**
+ * Parses the contents of a `.gitignore` style file. Rules are returned in file
+ * order; the last rule that matches a path decides whether it is ignored.
+ */
+export function parseIgnoreFile(content: string): IgnoreRule[]
+{
+	const rules: IgnoreRule[] = [];
+
+	for (const rawLine of content.split(/\r?\n/))
+	{
+		let line = rawLine.replace(/(?<!\\)\s+$/, "");
+		if (!line || line.startsWith("#"))
+		{
+			continue;
+		}
+
+		const negated = line.startsWith("!");
+		if (negated)
+		{
+			line = line.slice(1);
+		}
+		line = line.replace(/^\\([#!])/, "$1");
+
+		const directoryOnly = line.endsWith("/");
+		line = line.replace(/\/+$/, "");
+		if (!line)
+		{
+			continue;
+		}
+
+		const anchored = line.includes("/");
+		line = line.replace(/^\/+/, "").replace(/[{}]/g, "[$&]");
+
+		rules.push({
+			negated,
+			directoryOnly,
+			matches: compileGlob(anchored ? line : `**/${line}`),
+		});
+	}
+
+	return rules;
+}
+
+/**
+ * Applies the rules of one ignore file to a path relative to the directory
+ * holding that file. Returns `undefined` when no rule matches.
+ */
+export function evaluateIgnoreRules(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean | undefined
+{
+	let ignored: boolean | undefined;
+
+	for (const rule of rules)
+	{
+		if (rule.directoryOnly && !isDirectory)
+		{
+			continue;
+		}
+		if (rule.matches(relativePath))
+		{
+			ignored = !rule.negated;
+		}
+	}
+
+	return ignored;
+}
@@ -0,0 +1,82 @@
+import * as vscode from "vscode";
+import { ExplorerSharpItem } from "./ExplorerSharpItem";
+import { parentOf } from "./paths";
+import { pickSegment, Segment } from "./segments";
+
+
+/**
+ * Copy path, reveal and open in terminal for items in the ExplorerSharp view.
+ * On flattened and compacted items the user picks which segment they apply to.
+ */
+export class ItemActions
+{
+	constructor(private readonly selection: () => readonly ExplorerSharpItem[])
+	{
+	}
+
+	async copyPath(item?: ExplorerSharpItem): Promise<void>
+	{
+		const segment = await this.pick(item, "Select the path to copy");
+		if (segment)
+		{
+			await vscode.env.clipboard.writeText(segment.uri.fsPath);
+		}
+	}
+
+	async copyRelativePath(item?: ExplorerSharpItem): Promise<void>
+	{
+		const segment = await this.pick(item, "Select the path to copy");
+		if (segment)
+		{
+			await vscode.env.clipboard.writeText(vscode.workspace.asRelativePath(segment.uri));
+		}
+	}
+
+	async revealInOS(item?: ExplorerSharpItem): Promise<void>
+	{
+		const segment = await this.pick(item, "Select what to reveal");
+		if (segment)
+		{
+			await vscode.commands.executeCommand("revealFileInOS", segment.uri);
+		}
+	}
+
+	async revealInExplorer(item?: ExplorerSharpItem): Promise<void>
+	{
+		const segment = await this.pick(item, "Select what to reveal");
+		if (segment)
+		{
+			await vscode.commands.executeCommand("revealInExplorer", segment.uri);
+		}
+	}
+
+	async openInTerminal(item?: ExplorerSharpItem): Promise<void>
+	{
+		const element = this.resolve(item);
+		if (!element)
+		{
+			return;
+		}
+
+		// A plain file opens the terminal in its folder, like the native explorer.
+		const cwd = element.chain.length === 0
+			? parentOf(element.diskUri)
+			: (await pickSegment(element, "Select the folder to open the terminal in", (segment) => segment.isDirectory))?.uri;
+
+		if (cwd)
+		{
+			vscode.window.createTerminal({ cwd }).show();
+		}
+	}
+
+	private resolve(item?: ExplorerSharpItem): ExplorerSharpItem | undefined
+	{
+		return item instanceof ExplorerSharpItem ? item : this.selection()[0];
+	}
+
+	private async pick(item: ExplorerSharpItem | undefined, placeHolder: string): Promise<Segment | undefined>
+	{
+		const element = this.resolve(item);
+		return element && pickSegment(element, placeHolder);
+	}
+}
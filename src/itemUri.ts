@@ -0,0 +1,44 @@
+import * as vscode from "vscode";
+
+
+const MARKER = "explorerSharp";
+
+export interface ItemUriInfo
+{
+	diskUri: vscode.Uri;
+	/** Outermost directory the item stands for; changes anywhere below it belong to the item. */
+	scope: vscode.Uri;
+	hidden: boolean;
+}
+
+/**
+ * Folders, flattened items and hidden entries use a marked copy of their disk
+ * URI as `resourceUri`. File icons still resolve from the path, but decorations
+ * from other providers (which key on the plain URI) are left out, so
+ * ExplorerSharp's own decorations can account for flattening and hidden
+ * entries without showing up twice. Plain files keep the disk URI and show
+ * the same decorations as in the native explorer.
+ */
+export function toItemUri(diskUri: vscode.Uri, scope: vscode.Uri, hidden: boolean): vscode.Uri
+{
+	const query = new URLSearchParams({ [MARKER]: hidden ? "hidden" : "item", scope: scope.path });
+	return diskUri.with({ query: query.toString() });
+}
+
+export function parseItemUri(uri: vscode.Uri): ItemUriInfo | undefined
+{
+	const query = new URLSearchParams(uri.query);
+	const kind = query.get(MARKER);
+
+	if (!kind)
+	{
+		return undefined;
+	}
+
+	const diskUri = uri.with({ query: "" });
+	return {
+		diskUri,
+		scope: diskUri.with({ path: query.get("scope") ?? diskUri.path }),
+		hidden: kind === "hidden",
+	};
+}
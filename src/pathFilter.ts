@@ -0,0 +1,82 @@
+import * as vscode from "vscode";
+import { compileGlob, GlobMatcher, isGlobPattern } from "./glob";
+import { parentOf } from "./paths";
+
+
+/**
+ * Text typed into the filter box. Globs match the path relative to the
+ * workspace folder, and anywhere in it when they contain no `/` (`*.cs`).
+ * Anything else matches fuzzily: its characters appear in order in the path.
+ */
+export class PathFilter
+{
+	private readonly matcher: GlobMatcher;
+
+	constructor(readonly text: string)
+	{
+		const pattern = text.trim();
+
+		if (isGlobPattern(pattern))
+		{
+			this.matcher = compileGlob(pattern.includes("/") ? pattern : `**/${pattern}`);
+		}
+		else
+		{
+			const needle = pattern.toLowerCase();
+			this.matcher = (relativePath) => fuzzyMatches(needle, relativePath.toLowerCase());
+		}
+	}
+
+	matches(relativePath: string): boolean
+	{
+		return this.matcher(relativePath);
+	}
+}
+
+function fuzzyMatches(needle: string, haystack: string): boolean
+{
+	let i = 0;
+	for (const char of haystack)
+	{
+		if (char === needle[i])
+		{
+			i++;
+			if (i === needle.length)
+			{
+				return true;
+			}
+		}
+	}
+	return needle.length === 0;
+}
+
+/** Files matching a filter, and every folder on the way to them. */
+export class FilterResult
+{
+	readonly files = new Set<string>();
+	readonly folders = new Set<string>();
+
+	constructor(readonly filter: PathFilter)
+	{
+	}
+
+	add(file: vscode.Uri, root: vscode.Uri): void
+	{
+		this.files.add(file.toString());
+
+		for (let dir = parentOf(file); dir.path.length >= root.path.length && !this.folders.has(dir.toString()); dir = parentOf(dir))
+		{
+			this.folders.add(dir.toString());
+		}
+	}
+
+	contains(uri: vscode.Uri, isDirectory: boolean): boolean
+	{
+		return (isDirectory ? this.folders : this.files).has(uri.toString());
+	}
+
+	get isEmpty(): boolean
+	{
+		return this.files.size === 0;
+	}
+}
@@ -0,0 +1,37 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+
+/**
+ * Path of `uri` relative to the root of `folder`, always using forward slashes
+ * and never prefixed with the folder name, so it can be matched against the
+ * folder's own hide lists.
+ */
+export function relativePathOf(folder: vscode.WorkspaceFolder, uri: vscode.Uri): string
+{
+	return path.posix.relative(folder.uri.path, uri.path);
+}
+
+export function parentOf(uri: vscode.Uri): vscode.Uri
+{
+	return uri.with({ path: path.posix.dirname(uri.path) });
+}
+
+/** Whether the URI string `uri` is `ancestor` or lies below it. */
+export function isSameOrInside(uri: string, ancestor: string): boolean
+{
+	return uri === ancestor || uri.startsWith(`${ancestor}/`);
+}
+
+export async function exists(uri: vscode.Uri): Promise<boolean>
+{
+	try
+	{
+		await vscode.workspace.fs.stat(uri);
+		return true;
+	}
+	catch
+	{
+		return false;
+	}
+}
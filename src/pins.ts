@@ -0,0 +1,97 @@
+import * as vscode from "vscode";
+import { isSameOrInside } from "./paths";
+
+
+const STATE_KEY = "explorerSharp.pinned";
+
+/** Pinned files and folders of the workspace, in the order they are shown. */
+export class Pins implements vscode.Disposable
+{
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+	readonly onDidChange = this._onDidChange.event;
+
+	constructor(private readonly memento: vscode.Memento)
+	{
+	}
+
+	get uris(): vscode.Uri[]
+	{
+		return this.entries.map((entry) => vscode.Uri.parse(entry));
+	}
+
+	private get entries(): string[]
+	{
+		return this.memento.get<string[]>(STATE_KEY, []);
+	}
+
+	has(uri: vscode.Uri): boolean
+	{
+		return this.entries.includes(uri.toString());
+	}
+
+	/** Whether `uri` is pinned, lies inside a pinned folder, or contains a pinned entry. */
+	touches(uri: vscode.Uri): boolean
+	{
+		const target = uri.toString();
+		return this.entries.some((entry) => isSameOrInside(target, entry) || isSameOrInside(entry, target));
+	}
+
+	async add(uris: vscode.Uri[]): Promise<void>
+	{
+		const entries = this.entries;
+		const added = uris.map((uri) => uri.toString()).filter((uri) => !entries.includes(uri));
+		await this.save([...entries, ...added]);
+	}
+
+	async remove(uris: vscode.Uri[]): Promise<void>
+	{
+		const removed = new Set(uris.map((uri) => uri.toString()));
+		await this.save(this.entries.filter((entry) => !removed.has(entry)));
+	}
+
+	/** Moves `uris` in front of `before`, or to the end when it is left out. */
+	async move(uris: vscode.Uri[], before?: vscode.Uri): Promise<void>
+	{
+		const moved = uris.map((uri) => uri.toString());
+		const rest = this.entries.filter((entry) => !moved.includes(entry));
+		const index = before ? rest.indexOf(before.toString()) : -1;
+
+		rest.splice(index === -1 ? rest.length : index, 0, ...moved.filter((uri) => this.entries.includes(uri)));
+		await this.save(rest);
+	}
+
+	/** Follows renames and moves of pinned entries and of folders containing them. */
+	async renamed(files: readonly { oldUri: vscode.Uri; newUri: vscode.Uri }[]): Promise<void>
+	{
+		let changed = false;
+		const entries = this.entries.map((entry) =>
+		{
+			for (const { oldUri, newUri } of files)
+			{
+				const oldPrefix = oldUri.toString();
+				if (isSameOrInside(entry, oldPrefix))
+				{
+					changed = true;
+					return newUri.toString() + entry.slice(oldPrefix.length);
+				}
+			}
+			return entry;
+		});
+
+		if (changed)
+		{
+			await this.save(entries);
+		}
+	}
+
+	private async save(entries: string[]): Promise<void>
+	{
+		await this.memento.update(STATE_KEY, entries);
+		this._onDidChange.fire();
+	}
+
+	dispose(): void
+	{
+		this._onDidChange.dispose();
+	}
+}
@@ -0,0 +1,46 @@
+import * as vscode from "vscode";
+import { parseItemUri } from "./itemUri";
+import { describeProblems, Problems, totalOf } from "./problems";
+
+
+/**
+ * Problem counts for ExplorerSharp items. Folders, compacted chains and
+ * flattened items count everything below the outermost folder they stand for,
+ * so errors deep inside `Services/Billing/Handlers` show on the collapsed node.
+ */
+export class ProblemDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable
+{
+	private readonly _onDidChangeFileDecorations = new vscode.EventEmitter<undefined>();
+	readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
+	private readonly subscription: vscode.Disposable;
+
+	constructor(private readonly problems: Problems)
+	{
+		this.subscription = problems.onDidChange(() => this._onDidChangeFileDecorations.fire(undefined));
+	}
+
+	provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined
+	{
+		const info = parseItemUri(uri);
+		const count = info && this.problems.countWithin(info.scope);
+		if (!count)
+		{
+			return undefined;
+		}
+
+		const total = totalOf(count);
+		const color = count.errors > 0 ? "list.errorForeground" : count.warnings > 0 ? "list.warningForeground" : undefined;
+
+		return new vscode.FileDecoration(
+			total > 9 ? "9+" : String(total),
+			describeProblems(count),
+			color ? new vscode.ThemeColor(color) : undefined,
+		);
+	}
+
+	dispose(): void
+	{
+		this.subscription.dispose();
+		this._onDidChangeFileDecorations.dispose();
+	}
+}
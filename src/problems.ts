@@ -0,0 +1,165 @@
+import * as vscode from "vscode";
+
+
+export type ProblemSeverity = "off" | "error" | "warning" | "information" | "hint";
+
+export interface ProblemCount
+{
+	errors: number;
+	warnings: number;
+	infos: number;
+}
+
+const THRESHOLDS: Record<ProblemSeverity, vscode.DiagnosticSeverity | undefined> = {
+	off: undefined,
+	error: vscode.DiagnosticSeverity.Error,
+	warning: vscode.DiagnosticSeverity.Warning,
+	information: vscode.DiagnosticSeverity.Information,
+	hint: vscode.DiagnosticSeverity.Hint,
+};
+
+export function totalOf(count: ProblemCount): number
+{
+	return count.errors + count.warnings + count.infos;
+}
+
+/** "2 errors, 1 warning" */
+export function describeProblems(count: ProblemCount): string
+{
+	const parts: string[] = [];
+	const add = (n: number, noun: string) =>
+	{
+		if (n > 0)
+		{
+			parts.push(`${n} ${noun}${n === 1 ? "" : "s"}`);
+		}
+	};
+
+	add(count.errors, "error");
+	add(count.warnings, "warning");
+	add(count.infos, "info");
+	return parts.join(", ");
+}
+
+/**
+ * Diagnostic counts per file, limited to `explorerSharp.problemSeverity` and
+ * above, kept up to date from `vscode.languages.onDidChangeDiagnostics`.
+ */
+export class Problems implements vscode.Disposable
+{
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+	readonly onDidChange = this._onDidChange.event;
+
+	private counts = new Map<string, ProblemCount>();
+	private readonly disposables: vscode.Disposable[] = [];
+
+	constructor()
+	{
+		this.disposables.push(
+			vscode.languages.onDidChangeDiagnostics((e) => this.update(e.uris)),
+			vscode.workspace.onDidChangeConfiguration((e) =>
+			{
+				if (e.affectsConfiguration("explorerSharp.problemSeverity"))
+				{
+					this.rebuild();
+				}
+			}),
+		);
+		this.rebuild();
+	}
+
+	private get threshold(): vscode.DiagnosticSeverity | undefined
+	{
+		const severity = vscode.workspace.getConfiguration("explorerSharp").get<ProblemSeverity>("problemSeverity", "warning");
+		return severity in THRESHOLDS ? THRESHOLDS[severity] : vscode.DiagnosticSeverity.Warning;
+	}
+
+	/** Diagnostics of `uri` at or above the configured severity, in the order the language reported them. */
+	diagnosticsOf(uri: vscode.Uri): vscode.Diagnostic[]
+	{
+		const threshold = this.threshold;
+		if (threshold === undefined)
+		{
+			return [];
+		}
+
+		return vscode.languages.getDiagnostics(uri).filter((diagnostic) => diagnostic.severity <= threshold);
+	}
+
+	countOf(uri: vscode.Uri): ProblemCount | undefined
+	{
+		return this.counts.get(uri.toString());
+	}
+
+	/** Problems of `uri` itself and of everything below it. */
+	countWithin(uri: vscode.Uri): ProblemCount | undefined
+	{
+		const key = uri.toString();
+		const prefix = `${key}/`;
+		let total: ProblemCount | undefined;
+
+		for (const [file, count] of this.counts)
+		{
+			if (file === key || file.startsWith(prefix))
+			{
+				total ??= { errors: 0, warnings: 0, infos: 0 };
+				total.errors += count.errors;
+				total.warnings += count.warnings;
+				total.infos += count.infos;
+			}
+		}
+
+		return total;
+	}
+
+	private update(uris: readonly vscode.Uri[]): void
+	{
+		for (const uri of uris)
+		{
+			this.setCount(uri, this.diagnosticsOf(uri));
+		}
+		this._onDidChange.fire();
+	}
+
+	private rebuild(): void
+	{
+		this.counts.clear();
+		for (const [uri] of vscode.languages.getDiagnostics())
+		{
+			this.setCount(uri, this.diagnosticsOf(uri));
+		}
+		this._onDidChange.fire();
+	}
+
+	private setCount(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): void
+	{
+		if (diagnostics.length === 0)
+		{
+			this.counts.delete(uri.toString());
+			return;
+		}
+
+		const count: ProblemCount = { errors: 0, warnings: 0, infos: 0 };
+		for (const diagnostic of diagnostics)
+		{
+			if (diagnostic.severity === vscode.DiagnosticSeverity.Error)
+			{
+				count.errors++;
+			}
+			else if (diagnostic.severity === vscode.DiagnosticSeverity.Warning)
+			{
+				count.warnings++;
+			}
+			else
+			{
+				count.infos++;
+			}
+		}
+		this.counts.set(uri.toString(), count);
+	}
+
+	dispose(): void
+	{
+		vscode.Disposable.from(...this.disposables, this._onDidChange).dispose();
+	}
+}
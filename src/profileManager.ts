@@ -0,0 +1,104 @@
+import * as vscode from "vscode";
+import { ExplorerSharpProvider } from "./explorerSharpProvider";
+import { linq } from "./enumerable";
+
+
+export class ProfileManager implements vscode.Disposable
+{
+	private readonly statusBarItem: vscode.StatusBarItem;
+
+	constructor(private readonly provider: ExplorerSharpProvider)
+	{
+		this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
+		this.statusBarItem.command = "explorerSharp.switchProfile";
+		this.statusBarItem.tooltip = "ExplorerSharp: Switch Profile";
+		this.update();
+	}
+
+	private get settings()
+	{
+		return this.provider.settings;
+	}
+
+	get profileNames(): string[]
+	{
+		return linq<vscode.WorkspaceFolder>(this.provider.workspaceFolders)
+			.selectMany((folder) => Object.keys(this.settings.profiles(folder)))
+			.concat(...Object.keys(this.settings.profiles()))
+			.distinct()
+			.orderBy((name) => name, (a, b) => a.localeCompare(b))
+			.toArray();
+	}
+
+	update(): void
+	{
+		const active = this.settings.activeProfileName;
+
+		if (!active && this.profileNames.length === 0)
+		{
+			this.statusBarItem.hide();
+			return;
+		}
+
+		this.statusBarItem.text = `$(layers) ${active ?? "No Profile"}`;
+		this.statusBarItem.show();
+	}
+
+	async switchProfile(): Promise<void>
+	{
+		const active = this.settings.activeProfileName;
+		const none = "No Profile";
+		const save = "$(add) Save Current State as New Profile...";
+
+		const picks: vscode.QuickPickItem[] = [
+			{ label: none, description: active ? undefined : "active" },
+			...this.profileNames.map((name) => ({ label: name, description: name === active ? "active" : undefined })),
+			{ label: "", kind: vscode.QuickPickItemKind.Separator },
+			{ label: save },
+		];
+
+		const picked = await vscode.window.showQuickPick(picks, { placeHolder: "Select an ExplorerSharp profile" });
+		if (!picked)
+		{
+			return;
+		}
+
+		if (picked.label === save)
+		{
+			await this.saveProfile();
+			return;
+		}
+
+		await this.settings.setActiveProfile(picked.label === none ? undefined : picked.label);
+	}
+
+	async saveProfile(): Promise<void>
+	{
+		const folders = this.provider.workspaceFolders;
+		if (folders.length === 0)
+		{
+			return;
+		}
+
+		const name = await vscode.window.showInputBox({
+			prompt: "Name of the new ExplorerSharp profile",
+			value: this.settings.activeProfileName,
+			validateInput: (value) => value.trim() ? undefined : "Enter a profile name.",
+		});
+		if (!name)
+		{
+			return;
+		}
+
+		for (const folder of folders)
+		{
+			await this.settings.saveProfile(folder, name.trim(), this.settings.snapshot(folder));
+		}
+		await this.settings.setActiveProfile(name.trim());
+	}
+
+	dispose(): void
+	{
+		this.statusBarItem.dispose();
+	}
+}
@@ -0,0 +1,71 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ExplorerSharpProvider } from "./explorerSharpProvider";
+import { IGNORE_FILE_NAMES } from "./ignoreFile";
+import { RULE_FILE_NAME } from "./ruleFile";
+
+
+const REFRESH_DELAY_MS = 200;
+const RULE_FILE_NAMES = [...IGNORE_FILE_NAMES, RULE_FILE_NAME];
+
+/**
+ * Collects file system events and hands them to the provider in batches, so a
+ * `git checkout` or `npm install` results in a handful of targeted refreshes
+ * instead of one full rebuild per event.
+ */
+export class RefreshScheduler implements vscode.Disposable
+{
+	private pending = new Map<string, vscode.Uri>();
+	private rulesChanged = false;
+	private timer: NodeJS.Timeout | undefined;
+
+	constructor(private readonly provider: ExplorerSharpProvider)
+	{
+	}
+
+	watch(watcher: vscode.FileSystemWatcher): vscode.Disposable
+	{
+		return vscode.Disposable.from(
+			watcher.onDidCreate((uri) => this.queue(uri)),
+			watcher.onDidDelete((uri) => this.queue(uri)),
+			watcher.onDidChange((uri) =>
+			{
+				// Content-only changes never affect the tree, except for files that carry hide rules.
+				if (RULE_FILE_NAMES.includes(path.posix.basename(uri.path)))
+				{
+					this.queue(uri);
+				}
+			}),
+		);
+	}
+
+	private queue(uri: vscode.Uri): void
+	{
+		if (RULE_FILE_NAMES.includes(path.posix.basename(uri.path)))
+		{
+			this.rulesChanged = true;
+		}
+
+		this.provider.listings.invalidate(uri);
+		this.pending.set(uri.toString(), uri);
+		clearTimeout(this.timer);
+		this.timer = setTimeout(() => this.flush(), REFRESH_DELAY_MS);
+	}
+
+	private flush(): void
+	{
+		const uris = [...this.pending.values()];
+		const rulesChanged = this.rulesChanged;
+
+		this.pending.clear();
+		this.rulesChanged = false;
+		this.timer = undefined;
+
+		this.provider.refreshForChanges(uris, rulesChanged);
+	}
+
+	dispose(): void
+	{
+		clearTimeout(this.timer);
+	}
+}
@@ -0,0 +1,182 @@
+import * as vscode from "vscode";
+import { ExplorerSharpItem } from "./ExplorerSharpItem";
+import { ExplorerSharpProvider } from "./explorerSharpProvider";
+import { isSameOrInside } from "./paths";
+
+
+/**
+ * Reveals files in the ExplorerSharp view, follows the active editor when
+ * `explorerSharp.autoReveal` is on, and mirrors the selection to the native
+ * explorer when `explorerSharp.syncSelectionWithExplorer` is on.
+ */
+export class RevealController implements vscode.Disposable
+{
+	private readonly disposables: vscode.Disposable[] = [];
+	private syncing = false;
+
+	constructor(private readonly provider: ExplorerSharpProvider, private readonly treeView: vscode.TreeView<ExplorerSharpItem>)
+	{
+		this.disposables.push(
+			vscode.window.onDidChangeActiveTextEditor((editor) => this.activeEditorChanged(editor)),
+			treeView.onDidChangeSelection((e) => this.selectionChanged(e.selection)),
+		);
+	}
+
+	private get config(): vscode.WorkspaceConfiguration
+	{
+		return this.provider.settings.config();
+	}
+
+	async reveal(uri?: vscode.Uri): Promise<void>
+	{
+		uri = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+		if (!uri)
+		{
+			return;
+		}
+
+		const lookup = await this.provider.findItem(uri);
+		const name = vscode.workspace.asRelativePath(uri);
+
+		switch (lookup.reason)
+		{
+			case "outsideWorkspace":
+				vscode.window.showInformationMessage(`ExplorerSharp: ${name} is not inside a workspace folder.`);
+				return;
+			case "notFound":
+				vscode.window.showInformationMessage(`ExplorerSharp: ${name} could not be found in the view.`);
+				return;
+			case "hidden":
+			{
+				const show = "Show Hidden Items";
+				const answer = await vscode.window.showInformationMessage(
+					`ExplorerSharp: ${name} is hidden because "${lookup.hiddenPath}" is hidden.`, show);
+				if (answer === show)
+				{
+					await this.provider.setShowHiddenItems(true);
+					await this.reveal(uri);
+				}
+				return;
+			}
+		}
+
+		await this.revealItem(lookup.item, true);
+	}
+
+	/**
+	 * Opens the next file with problems after the selection (or the active
+	 * editor) in tree order, wrapping around at the end.
+	 */
+	async nextProblem(): Promise<void>
+	{
+		const current = this.treeView.selection[0]?.diskUri ?? vscode.window.activeTextEditor?.document.uri;
+		const item = await this.findNextProblem(current?.toString());
+
+		if (!item)
+		{
+			vscode.window.showInformationMessage("ExplorerSharp: No files with problems.");
+			return;
+		}
+
+		const [first] = this.provider.problems.diagnosticsOf(item.diskUri);
+		await vscode.window.showTextDocument(item.diskUri, { selection: first?.range });
+		await this.revealItem(item, false);
+	}
+
+	private async findNextProblem(current: string | undefined): Promise<ExplorerSharpItem | undefined>
+	{
+		const problems = this.provider.problems;
+		let passed = current === undefined;
+		let first: ExplorerSharpItem | undefined;
+
+		// Only folders with problems below them, or on the way to the current file, are expanded.
+		const visit = async (parent?: ExplorerSharpItem): Promise<ExplorerSharpItem | undefined> =>
+		{
+			for (const child of await this.provider.childrenOf(parent))
+			{
+				const uri = child.diskUri.toString();
+				const isCurrent = uri === current;
+
+				if (!child.isDirectory)
+				{
+					if (problems.countOf(child.diskUri))
+					{
+						if (passed && !isCurrent)
+						{
+							return child;
+						}
+						first ??= child;
+					}
+					passed ||= isCurrent;
+					continue;
+				}
+
+				passed ||= isCurrent;
+				const scope = child.chain[0] ?? child.diskUri;
+				if (problems.countWithin(scope) || (current && isSameOrInside(current, scope.toString())))
+				{
+					const found = await visit(child);
+					if (found)
+					{
+						return found;
+					}
+				}
+			}
+			return undefined;
+		};
+
+		return await visit() ?? first;
+	}
+
+	private async revealItem(item: ExplorerSharpItem, focus: boolean): Promise<void>
+	{
+		this.syncing = true;
+		try
+		{
+			await this.treeView.reveal(item, { select: true, focus, expand: false });
+		}
+		finally
+		{
+			this.syncing = false;
+		}
+	}
+
+	private async activeEditorChanged(editor: vscode.TextEditor | undefined): Promise<void>
+	{
+		const follow = this.config.get<boolean>("autoReveal", false) || this.config.get<boolean>("syncSelectionWithExplorer", false);
+		if (!editor || !follow || !this.treeView.visible || editor.document.uri.scheme !== "file")
+		{
+			return;
+		}
+
+		const lookup = await this.provider.findItem(editor.document.uri);
+		if (lookup.item)
+		{
+			await this.revealItem(lookup.item, false);
+		}
+	}
+
+	private async selectionChanged(selection: readonly ExplorerSharpItem[]): Promise<void>
+	{
+		if (this.syncing || selection.length !== 1 || !this.config.get<boolean>("syncSelectionWithExplorer", false))
+		{
+			return;
+		}
+
+		// Groups and missing pins have nothing on disk for the native explorer to show.
+		const [item] = selection;
+		if (item.diskUri.scheme !== "file" || item.contextValue === "pinnedMissing")
+		{
+			return;
+		}
+
+		// The native explorer has no selection API; revealing moves focus there, so hand it back afterwards.
+		await vscode.commands.executeCommand("revealInExplorer", item.diskUri);
+		await vscode.commands.executeCommand("explorerSharp.focus");
+	}
+
+	dispose(): void
+	{
+		vscode.Disposable.from(...this.disposables).dispose();
+	}
+}
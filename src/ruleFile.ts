@@ -0,0 +1,79 @@
+import { compileGlob, GlobMatcher } from "./glob";
+
+
+export const RULE_FILE_NAME = ".explorersharp";
+
+interface RuleFilePattern
+{
+	pattern: string;
+	matches: GlobMatcher;
+}
+
+/**
+ * The rules of one `.explorersharp` file. Patterns are relative to the
+ * directory holding the file; a pattern without a `/` matches at any depth
+ * below it, as in `.gitignore`.
+ */
+export interface DirectoryRules
+{
+	hide: RuleFilePattern[];
+	show: RuleFilePattern[];
+	flattenSingleFileDirectories?: boolean;
+	flattenSingleChildDirectories?: boolean;
+}
+
+export type FlattenKey = "flattenSingleFileDirectories" | "flattenSingleChildDirectories";
+
+function compilePatterns(value: unknown): RuleFilePattern[]
+{
+	if (!Array.isArray(value))
+	{
+		return [];
+	}
+
+	return value
+		.filter((pattern): pattern is string => typeof pattern === "string" && pattern.trim().length > 0)
+		.map((pattern) =>
+		{
+			const line = pattern.trim().replace(/\/+$/, "");
+			return { pattern, matches: compileGlob(line.includes("/") ? line.replace(/^\/+/, "") : `**/${line}`) };
+		});
+}
+
+/** Parses the JSON contents of a `.explorersharp` file. Throws when it is not valid JSON. */
+export function parseRuleFile(content: string): DirectoryRules
+{
+	const json = JSON.parse(content);
+	const rules: DirectoryRules = {
+		hide: compilePatterns(json?.hide),
+		show: compilePatterns(json?.show),
+	};
+
+	for (const key of ["flattenSingleFileDirectories", "flattenSingleChildDirectories"] as FlattenKey[])
+	{
+		if (typeof json?.[key] === "boolean")
+		{
+			rules[key] = json[key];
+		}
+	}
+
+	return rules;
+}
+
+/**
+ * Applies the rules of one rule file to a path relative to the directory
+ * holding that file. `show` wins over `hide`; returns `undefined` when
+ * neither matches. Entries inside a hidden folder are never evaluated, so
+ * `show` only re-includes entries whose folders are still shown.
+ */
+export function evaluateDirectoryRules(rules: DirectoryRules, relativePath: string): { hidden: boolean; pattern: string } | undefined
+{
+	const shown = rules.show.find((candidate) => candidate.matches(relativePath));
+	if (shown)
+	{
+		return { hidden: false, pattern: shown.pattern };
+	}
+
+	const hidden = rules.hide.find((candidate) => candidate.matches(relativePath));
+	return hidden ? { hidden: true, pattern: hidden.pattern } : undefined;
+}
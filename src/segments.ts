@@ -0,0 +1,53 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ExplorerSharpItem } from "./ExplorerSharpItem";
+import { relativePathOf } from "./paths";
+
+
+export interface Segment
+{
+	uri: vscode.Uri;
+	relativePath: string;
+	isDirectory: boolean;
+}
+
+/**
+ * Every path an item stands for: the directories folded into it by flattening,
+ * outermost first, followed by the file itself for flattened files.
+ */
+export function itemSegments(item: ExplorerSharpItem): Segment[]
+{
+	const segments = item.chain.map((uri) => ({ uri, relativePath: relativePathOf(item.workspaceFolder, uri), isDirectory: true }));
+
+	if (!item.isDirectory)
+	{
+		segments.push({ uri: item.diskUri, relativePath: item.relativePath, isDirectory: false });
+	}
+
+	return segments;
+}
+
+/**
+ * Lets the user choose which segment of a flattened or compacted item an
+ * action applies to. Items that stand for a single path skip the picker.
+ */
+export async function pickSegment(item: ExplorerSharpItem, placeHolder: string, filter: (segment: Segment) => boolean = () => true): Promise<Segment | undefined>
+{
+	const segments = itemSegments(item).filter(filter);
+
+	if (segments.length <= 1)
+	{
+		return segments[0];
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		segments.map((segment) => ({
+			label: `$(${segment.isDirectory ? "folder" : "file"}) ${path.posix.basename(segment.relativePath)}`,
+			description: segment.relativePath,
+			segment,
+		})),
+		{ placeHolder },
+	);
+
+	return picked?.segment;
+}
@@ -0,0 +1,413 @@
+import * as vscode from "vscode";
+import { ConfigLayer, LayerConfig, LayerName, PersonalOverlay, SharedConfigFiles } from "./configLayers";
+import { readVirtualFolders, VirtualFolder } from "./virtualFolders";
+
+
+export const PROFILE_KEYS = [
+	"hiddenFolders",
+	"hiddenFiles",
+	"hiddenPatterns",
+	"flattenSingleFileDirectories",
+	"flattenSingleChildDirectories",
+] as const;
+
+export type ProfileKey = typeof PROFILE_KEYS[number];
+export type ProfileListKey = "hiddenFolders" | "hiddenFiles" | "hiddenPatterns";
+export type ListKey = ProfileListKey | "neverFlatten" | "alwaysCompact";
+
+export interface Profile
+{
+	hiddenFolders?: string[];
+	hiddenFiles?: string[];
+	hiddenPatterns?: string[];
+	flattenSingleFileDirectories?: boolean;
+	flattenSingleChildDirectories?: boolean;
+}
+
+export type HideTarget = LayerName | "ask";
+
+const LIST_KEYS: readonly string[] = ["hiddenFolders", "hiddenFiles", "hiddenPatterns", "neverFlatten", "alwaysCompact"];
+const SCALAR_KEYS: readonly string[] = ["flattenSingleFileDirectories", "flattenSingleChildDirectories", "fileNestingEnabled"];
+
+const LAYER_LABELS: Record<LayerName, string> = {
+	shared: "Shared (.explorersharp.json)",
+	settings: "Workspace settings",
+	personal: "Personal (this machine only)",
+};
+
+function isProfileKey(key: string): key is ProfileKey
+{
+	return (PROFILE_KEYS as readonly string[]).includes(key);
+}
+
+function isListKey(key: string): key is ListKey
+{
+	return LIST_KEYS.includes(key);
+}
+
+/**
+ * Reads and writes `explorerSharp.*` settings for a workspace folder. While a
+ * profile is active, the keys it defines take precedence over the plain
+ * settings, and writes to profile keys go into that profile.
+ *
+ * Hide lists, flatten and nesting options and virtual folders are layered:
+ * the shared `.explorersharp.json` file, then VS Code settings (and the
+ * active profile), then the personal overlay. Lists are merged across the
+ * layers; for everything else the last layer that sets a value wins.
+ */
+export class ExplorerSharpSettings implements vscode.Disposable
+{
+	readonly shared = new SharedConfigFiles();
+	readonly personal: PersonalOverlay;
+
+	constructor(memento: vscode.Memento)
+	{
+		this.personal = new PersonalOverlay(memento);
+	}
+
+	config(folder?: vscode.WorkspaceFolder): vscode.WorkspaceConfiguration
+	{
+		return vscode.workspace.getConfiguration("explorerSharp", folder?.uri);
+	}
+
+	get activeProfileName(): string | undefined
+	{
+		return this.config().get<string>("activeProfile") || undefined;
+	}
+
+	profiles(folder?: vscode.WorkspaceFolder): Record<string, Profile>
+	{
+		return this.config(folder).get<Record<string, Profile>>("profiles", {});
+	}
+
+	get<T>(folder: vscode.WorkspaceFolder, key: string, defaultValue: T): T
+	{
+		if (isListKey(key))
+		{
+			const lists = this.layers.map((layer) => this.listIn(folder, key, layer));
+			return [...new Set(lists.flat())] as T;
+		}
+
+		// Patterns set in any layer replace the default patterns rather than adding to them.
+		if (key === "fileNestingPatterns")
+		{
+			const settings = this.settingsValue<object>(folder, key);
+			const shared = this.shared.get(folder)[key];
+			const base = shared ?? (settings ? {} : this.config(folder).get<object>(key, {}));
+			return { ...base, ...settings, ...this.personal.get(folder)[key] } as T;
+		}
+
+		if (SCALAR_KEYS.includes(key))
+		{
+			const personal = this.personal.get(folder)[key as keyof LayerConfig];
+			const shared = this.shared.get(folder)[key as keyof LayerConfig];
+			return (personal ?? this.settingsValue(folder, key) ?? shared ?? this.config(folder).get<T>(key, defaultValue)) as T;
+		}
+
+		return this.profileValue<T>(folder, key) ?? this.config(folder).get<T>(key, defaultValue);
+	}
+
+	private profileValue<T>(folder: vscode.WorkspaceFolder, key: string): T | undefined
+	{
+		const name = this.activeProfileName;
+		const profile = name ? this.profiles(folder)[name] : undefined;
+
+		return profile && isProfileKey(key) ? profile[key] as T | undefined : undefined;
+	}
+
+	/** The value of `key` from the active profile or explicitly set in VS Code settings, ignoring the default. */
+	private settingsValue<T>(folder: vscode.WorkspaceFolder, key: string): T | undefined
+	{
+		const inspected = this.config(folder).inspect<T>(key);
+		return this.profileValue<T>(folder, key) ?? inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+	}
+
+	get layers(): LayerName[]
+	{
+		return ["shared", "settings", "personal"];
+	}
+
+	private layer(name: Exclude<LayerName, "settings">): ConfigLayer
+	{
+		return name === "shared" ? this.shared : this.personal;
+	}
+
+	/** The entries of the list `key` in one layer. */
+	listIn(folder: vscode.WorkspaceFolder, key: ListKey, layer: LayerName): string[]
+	{
+		const list = layer === "settings"
+			? this.profileValue<string[]>(folder, key) ?? this.config(folder).get<string[]>(key, [])
+			: this.layer(layer).get(folder)[key];
+
+		return Array.isArray(list) ? list : [];
+	}
+
+	async updateList(folder: vscode.WorkspaceFolder, key: ListKey, layer: LayerName, list: string[]): Promise<void>
+	{
+		if (layer === "settings")
+		{
+			await this.update(folder, key, list);
+			return;
+		}
+
+		await this.layer(layer).update(folder, (config) => ({ ...config, [key]: list }));
+	}
+
+	/** Adds `entry` to the list `key` in `layer`. Returns whether it was added. */
+	async addEntry(folder: vscode.WorkspaceFolder, key: ListKey, entry: string, layer: LayerName): Promise<boolean>
+	{
+		const list = this.listIn(folder, key, layer);
+		if (list.includes(entry))
+		{
+			return false;
+		}
+
+		await this.updateList(folder, key, layer, [...list, entry]);
+		return true;
+	}
+
+	/** Removes `entry` from the list `key` in every layer that has it. */
+	async removeEntry(folder: vscode.WorkspaceFolder, key: ListKey, entry: string): Promise<void>
+	{
+		for (const layer of this.layers)
+		{
+			const list = this.listIn(folder, key, layer);
+			if (list.includes(entry))
+			{
+				await this.updateList(folder, key, layer, list.filter((other) => other !== entry));
+			}
+		}
+	}
+
+	/**
+	 * The layer hide commands write to, from `explorerSharp.hideTarget`.
+	 * Undefined when the user dismisses the picker.
+	 */
+	async pickLayer(folder: vscode.WorkspaceFolder): Promise<LayerName | undefined>
+	{
+		const target = this.config(folder).get<HideTarget>("hideTarget", "settings");
+		if (target !== "ask")
+		{
+			return target;
+		}
+
+		const picked = await vscode.window.showQuickPick(
+			this.layers.map((layer) => ({ label: LAYER_LABELS[layer], layer })),
+			{ placeHolder: "Where should this rule be saved?" },
+		);
+		return picked?.layer;
+	}
+
+	/**
+	 * Virtual folders from every layer. Folders are matched by name and a
+	 * later layer replaces the definition of an earlier one.
+	 */
+	virtualFolders(): VirtualFolder[]
+	{
+		const folders = vscode.workspace.workspaceFolders ?? [];
+		const isValid = (folder: VirtualFolder) => typeof folder?.name === "string" && folder.name.length > 0 && Array.isArray(folder.paths);
+		const byName = new Map<string, VirtualFolder>();
+
+		for (const definition of [
+			...folders.flatMap((folder) => this.shared.get(folder).virtualFolders ?? []),
+			...readVirtualFolders(this.config()),
+			...folders.flatMap((folder) => this.personal.get(folder).virtualFolders ?? []),
+		].filter(isValid))
+		{
+			byName.set(definition.name, definition);
+		}
+
+		return [...byName.values()];
+	}
+
+	/** The effective value of every layered key for `folder`, next to what each layer sets. */
+	describe(folder: vscode.WorkspaceFolder): object
+	{
+		const settingsLayer: LayerConfig = {};
+		for (const key of [...LIST_KEYS, ...SCALAR_KEYS, "fileNestingPatterns"])
+		{
+			const value = isListKey(key) ? this.listIn(folder, key, "settings") : this.settingsValue(folder, key);
+			if (value !== undefined && !(Array.isArray(value) && value.length === 0))
+			{
+				(settingsLayer as Record<string, unknown>)[key] = value;
+			}
+		}
+		settingsLayer.virtualFolders = readVirtualFolders(this.config());
+
+		return {
+			effective: {
+				hiddenFolders: this.get<string[]>(folder, "hiddenFolders", []),
+				hiddenFiles: this.get<string[]>(folder, "hiddenFiles", []),
+				hiddenPatterns: this.get<string[]>(folder, "hiddenPatterns", []),
+				flattenSingleFileDirectories: this.get<boolean>(folder, "flattenSingleFileDirectories", true),
+				flattenSingleChildDirectories: this.get<boolean>(folder, "flattenSingleChildDirectories", true),
+				fileNestingEnabled: this.get<boolean>(folder, "fileNestingEnabled", false),
+				fileNestingPatterns: this.get<object>(folder, "fileNestingPatterns", {}),
+				neverFlatten: this.get<string[]>(folder, "neverFlatten", []),
+				alwaysCompact: this.get<string[]>(folder, "alwaysCompact", []),
+				maxCompactionDepth: this.get<number>(folder, "maxCompactionDepth", 0),
+				virtualFolders: this.virtualFolders(),
+			},
+			layers: {
+				shared: { file: this.shared.fileOf(folder).fsPath, ...this.shared.get(folder) },
+				settings: { activeProfile: this.activeProfileName, ...settingsLayer },
+				personal: this.personal.get(folder),
+			},
+		};
+	}
+
+	async update(folder: vscode.WorkspaceFolder, key: string, value: unknown): Promise<void>
+	{
+		const name = this.activeProfileName;
+
+		if (name && isProfileKey(key))
+		{
+			const profiles = { ...this.profiles(folder) };
+			profiles[name] = { ...profiles[name], [key]: value };
+			await this.config(folder).update("profiles", profiles, vscode.ConfigurationTarget.WorkspaceFolder);
+			return;
+		}
+
+		await this.config(folder).update(key, value, vscode.ConfigurationTarget.WorkspaceFolder);
+	}
+
+	/**
+	 * Every entry of the list `key` for `folder` that `rewriteEntries` can
+	 * change: from the workspace and workspace folder settings, every profile
+	 * defined there, the shared file and the personal overlay. User settings
+	 * apply to every workspace, so their entries are left out.
+	 */
+	allEntries(folder: vscode.WorkspaceFolder, key: ProfileListKey): string[]
+	{
+		const lists = [
+			...this.workspaceTargets.flatMap((target) => [
+				this.valueAt<string[]>(folder, key, target),
+				...Object.values(this.valueAt<Record<string, Profile>>(folder, "profiles", target) ?? {}).map((profile) => profile?.[key]),
+			]),
+			this.shared.get(folder)[key],
+			this.personal.get(folder)[key],
+		];
+
+		return [...new Set(lists.flatMap((list) => Array.isArray(list) ? list.filter((entry) => typeof entry === "string") : []))];
+	}
+
+	/** The entries of the list `key` in user settings and the profiles defined there, which `rewriteEntries` leaves alone. */
+	userEntries(folder: vscode.WorkspaceFolder, key: ProfileListKey): string[]
+	{
+		const inspect = <T>(name: string) => this.config(folder).inspect<T>(name)?.globalValue;
+		const lists = [
+			inspect<string[]>(key),
+			...Object.values(inspect<Record<string, Profile>>("profiles") ?? {}).map((profile) => profile?.[key]),
+		];
+
+		return [...new Set(lists.flatMap((list) => Array.isArray(list) ? list.filter((entry) => typeof entry === "string") : []))];
+	}
+
+	/**
+	 * Rewrites the entries of the list `key` in the workspace and workspace
+	 * folder settings, in every profile defined there, in the shared file and
+	 * in the personal overlay. `rewrite` returns the
+	 * new entry, or undefined to drop it. Returns whether anything changed.
+	 */
+	async rewriteEntries(folder: vscode.WorkspaceFolder, key: ProfileListKey, rewrite: (entry: string) => string | undefined): Promise<boolean>
+	{
+		const rewriteList = (list: unknown): string[] | undefined =>
+		{
+			if (!Array.isArray(list))
+			{
+				return undefined;
+			}
+			const next = [...new Set(list.map(rewrite).filter((entry): entry is string => entry !== undefined))];
+			return next.length === list.length && next.every((entry, i) => entry === list[i]) ? undefined : next;
+		};
+
+		let changed = false;
+
+		for (const target of this.workspaceTargets)
+		{
+			const config = this.config(folder);
+			const list = rewriteList(this.valueAt<string[]>(folder, key, target));
+			if (list)
+			{
+				await config.update(key, list, target);
+				changed = true;
+			}
+
+			const profiles = this.valueAt<Record<string, Profile>>(folder, "profiles", target);
+			let profilesChanged = false;
+			const updated = Object.fromEntries(Object.entries(profiles ?? {}).map(([name, profile]) =>
+			{
+				const entries = rewriteList(profile?.[key]);
+				profilesChanged ||= entries !== undefined;
+				return [name, entries ? { ...profile, [key]: entries } : profile];
+			}));
+
+			if (profilesChanged)
+			{
+				await config.update("profiles", updated, target);
+				changed = true;
+			}
+		}
+
+		for (const layer of [this.shared, this.personal])
+		{
+			const list = rewriteList(layer.get(folder)[key]);
+			if (list)
+			{
+				await layer.update(folder, (config) => ({ ...config, [key]: list }));
+				changed = true;
+			}
+		}
+
+		return changed;
+	}
+
+	/** The settings targets that belong to the workspace. Without a workspace file, workspace and workspace folder settings are the same file. */
+	private get workspaceTargets(): vscode.ConfigurationTarget[]
+	{
+		return vscode.workspace.workspaceFile
+			? [vscode.ConfigurationTarget.WorkspaceFolder, vscode.ConfigurationTarget.Workspace]
+			: [vscode.ConfigurationTarget.WorkspaceFolder];
+	}
+
+	private valueAt<T>(folder: vscode.WorkspaceFolder, key: string, target: vscode.ConfigurationTarget): T | undefined
+	{
+		const inspected = this.config(folder).inspect<T>(key);
+		return target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue : inspected?.workspaceFolderValue;
+	}
+
+	/**
+	 * Captures the value of every profile key for `folder` from VS Code settings
+	 * and the active profile. The shared file and the personal overlay are left
+	 * out, so saving a profile never copies their rules into settings.
+	 */
+	snapshot(folder: vscode.WorkspaceFolder): Profile
+	{
+		return {
+			hiddenFolders: this.listIn(folder, "hiddenFolders", "settings"),
+			hiddenFiles: this.listIn(folder, "hiddenFiles", "settings"),
+			hiddenPatterns: this.listIn(folder, "hiddenPatterns", "settings"),
+			flattenSingleFileDirectories: this.settingsValue<boolean>(folder, "flattenSingleFileDirectories")
+				?? this.config(folder).get<boolean>("flattenSingleFileDirectories", true),
+			flattenSingleChildDirectories: this.settingsValue<boolean>(folder, "flattenSingleChildDirectories")
+				?? this.config(folder).get<boolean>("flattenSingleChildDirectories", true),
+		};
+	}
+
+	async saveProfile(folder: vscode.WorkspaceFolder, name: string, profile: Profile): Promise<void>
+	{
+		const profiles = { ...this.profiles(folder), [name]: profile };
+		await this.config(folder).update("profiles", profiles, vscode.ConfigurationTarget.WorkspaceFolder);
+	}
+
+	async setActiveProfile(name: string | undefined): Promise<void>
+	{
+		await this.config().update("activeProfile", name ?? "", vscode.ConfigurationTarget.Workspace);
+	}
+
+	dispose(): void
+	{
+		this.shared.dispose();
+		this.personal.dispose();
+	}
+}
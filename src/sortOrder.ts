@@ -0,0 +1,90 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ExplorerSharpItem } from "./ExplorerSharpItem";
+import { linq, OrderedEnumerable } from "./enumerable";
+
+
+export type SortOrder = "default" | "natural" | "type" | "modified" | "size" | "mixed" | "filesFirst";
+
+export const SORT_ORDERS: { order: SortOrder; label: string }[] = [
+	{ order: "default", label: "Name" },
+	{ order: "natural", label: "Name, Numbers as Values" },
+	{ order: "type", label: "Extension" },
+	{ order: "modified", label: "Last Modified" },
+	{ order: "size", label: "Size" },
+	{ order: "mixed", label: "Name, Folders and Files Mixed" },
+	{ order: "filesFirst", label: "Name, Files First" },
+];
+
+const plainCompare = (a: string, b: string) => a.localeCompare(b);
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+function labelOf(item: ExplorerSharpItem): string
+{
+	return typeof item.label === "string" ? item.label : item.label?.label ?? "";
+}
+
+/** Flattened files sort with folders, since that is what they are on disk. */
+function isFolderEntry(item: ExplorerSharpItem): boolean
+{
+	return item.isDirectory || item.chain.length > 0;
+}
+
+async function statAll(items: ExplorerSharpItem[]): Promise<Map<ExplorerSharpItem, vscode.FileStat | undefined>>
+{
+	const stats = await Promise.all(items.map((item) => Promise.resolve(vscode.workspace.fs.stat(item.diskUri)).catch(() => undefined)));
+	return new Map(items.map((item, i) => [item, stats[i]]));
+}
+
+/**
+ * Sorts sibling items by the label they are displayed with, so a flattened
+ * `folder/file.ext` sorts as `folder/file.ext` and not as `folder`.
+ * `descending` reverses the sort key but keeps folders and files grouped.
+ */
+export async function sortItems(items: ExplorerSharpItem[], order: SortOrder, descending: boolean): Promise<ExplorerSharpItem[]>
+{
+	const stats = order === "modified" || order === "size" ? await statAll(items) : undefined;
+	const compareNames = order === "default" ? plainCompare : naturalCompare;
+
+	let sorted: OrderedEnumerable<ExplorerSharpItem> = linq<ExplorerSharpItem>(items).orderBy((item) =>
+	{
+		switch (order)
+		{
+			case "mixed":
+				return 0;
+			case "filesFirst":
+				return isFolderEntry(item) ? 1 : 0;
+			default:
+				return isFolderEntry(item) ? 0 : 1;
+		}
+	});
+
+	const thenBy = <K>(key: (item: ExplorerSharpItem) => K, comparer?: (a: K, b: K) => number) =>
+	{
+		sorted = descending ? sorted.thenByDescending(key, comparer) : sorted.thenBy(key, comparer);
+	};
+
+	switch (order)
+	{
+		case "type":
+			thenBy((item) => isFolderEntry(item) ? "" : path.posix.extname(labelOf(item)).toLowerCase(), plainCompare);
+			break;
+		case "modified":
+			thenBy((item) => stats?.get(item)?.mtime ?? 0);
+			break;
+		case "size":
+			thenBy((item) => isFolderEntry(item) ? 0 : stats?.get(item)?.size ?? 0);
+			break;
+	}
+
+	if (order === "type" || order === "modified" || order === "size")
+	{
+		sorted = sorted.thenBy(labelOf, compareNames);
+	}
+	else
+	{
+		thenBy(labelOf, compareNames);
+	}
+
+	return sorted.toArray();
+}
@@ -0,0 +1,109 @@
+import * as vscode from "vscode";
+import { ExplorerSharpItem } from "./ExplorerSharpItem";
+import { ExplorerSharpProvider } from "./explorerSharpProvider";
+
+
+/** A top-level node grouping paths and globs from anywhere in the workspace. */
+export interface VirtualFolder
+{
+	name: string;
+	/** Paths or globs, relative to each workspace folder. */
+	paths: string[];
+}
+
+export function readVirtualFolders(config: vscode.WorkspaceConfiguration): VirtualFolder[]
+{
+	return config.get<VirtualFolder[]>("virtualFolders", [])
+		.filter((folder) => typeof folder?.name === "string" && folder.name.length > 0 && Array.isArray(folder.paths));
+}
+
+/** Creating and extending virtual folders from the selection in the view. */
+export class VirtualFolderCommands
+{
+	constructor(private readonly provider: ExplorerSharpProvider, private readonly selection: () => readonly ExplorerSharpItem[])
+	{
+	}
+
+	async create(item?: ExplorerSharpItem, selected?: readonly ExplorerSharpItem[]): Promise<void>
+	{
+		const existing = this.folders.map((folder) => folder.name);
+		const name = await vscode.window.showInputBox({
+			prompt: "Name of the virtual folder",
+			validateInput: (input) =>
+			{
+				if (!input.trim())
+				{
+					return "A name must be provided.";
+				}
+				return existing.includes(input.trim()) ? `A virtual folder named **${input.trim()}** already exists.` : undefined;
+			},
+		});
+		if (!name)
+		{
+			return;
+		}
+
+		await this.save([...this.workspaceFolders, { name: name.trim(), paths: this.selectedPaths(item, selected) }]);
+	}
+
+	async add(item?: ExplorerSharpItem, selected?: readonly ExplorerSharpItem[]): Promise<void>
+	{
+		const paths = this.selectedPaths(item, selected);
+		if (paths.length === 0)
+		{
+			return;
+		}
+
+		const folders = this.folders;
+		if (folders.length === 0)
+		{
+			await this.create(item, selected);
+			return;
+		}
+
+		const picked = await vscode.window.showQuickPick(
+			folders.map((folder) => ({ label: folder.name, description: folder.paths.join(", "), folder })),
+			{ placeHolder: "Select the virtual folder to add to" },
+		);
+		if (!picked)
+		{
+			return;
+		}
+
+		const updated = { name: picked.folder.name, paths: [...picked.folder.paths, ...paths.filter((entry) => !picked.folder.paths.includes(entry))] };
+		const workspace = this.workspaceFolders;
+		await this.save(workspace.some((folder) => folder.name === updated.name)
+			? workspace.map((folder) => folder.name === updated.name ? updated : folder)
+			: [...workspace, updated]);
+	}
+
+	private get folders(): VirtualFolder[]
+	{
+		return readVirtualFolders(this.provider.settings.config());
+	}
+
+	/** The definitions in workspace settings only, so saving never copies user settings into the workspace. */
+	private get workspaceFolders(): VirtualFolder[]
+	{
+		return this.provider.settings.config().inspect<VirtualFolder[]>("virtualFolders")?.workspaceValue ?? [];
+	}
+
+	/** Relative paths of the items the command applies to: the multi-selection if the clicked item is part of it. */
+	private selectedPaths(item?: ExplorerSharpItem, selected?: readonly ExplorerSharpItem[]): string[]
+	{
+		let items = selected && selected.length > 0 ? selected : this.selection();
+		if (item instanceof ExplorerSharpItem && !items.includes(item))
+		{
+			items = [item];
+		}
+
+		return [...new Set(items
+			.filter((element) => element.relativePath && !element.isHiddenEntry)
+			.map((element) => element.relativePath))];
+	}
+
+	private async save(folders: VirtualFolder[]): Promise<void>
+	{
+		await this.provider.settings.config().update("virtualFolders", folders, vscode.ConfigurationTarget.Workspace);
+	}
+}